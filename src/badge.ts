@@ -1,32 +1,632 @@
 import { makeBadge } from "badge-maker";
-import { BadgeStyle, HealthStatus, VALID_BADGE_STYLES } from "./types";
+import {
+  BadgeContent,
+  BadgeLang,
+  BadgeMode,
+  BadgeStyle,
+  BadgeTheme,
+  BadgeThemeInput,
+  CacheData,
+  CardColorScheme,
+  CurrentStreak,
+  HealthStatus,
+  HistoryEntry,
+  ShieldsEndpoint,
+  TopRepo,
+  TrendType,
+  VALID_BADGE_LANGS,
+  VALID_BADGE_MODES,
+  VALID_BADGE_STYLES,
+  VALID_CARD_COLOR_SCHEMES,
+  VALID_TREND_TYPES,
+} from "./types";
+import { getZonedDateParts } from "./utils";
+
+// 言語ごとのステータス表示
+const statusMessages: Record<
+  BadgeLang,
+  Record<HealthStatus, { text: string; emoji: string }>
+> = {
+  ja: {
+    healthy: { text: "元気", emoji: "😎" },
+    moderate: { text: "いまいち", emoji: "😑" },
+    inactive: { text: "元気ない", emoji: "🙁" },
+  },
+  en: {
+    healthy: { text: "Genki", emoji: "😎" },
+    moderate: { text: "So-so", emoji: "😑" },
+    inactive: { text: "Not genki", emoji: "🙁" },
+  },
+};
+
+// 言語ごとの連続日数・最後のコミットからの日数の表示
+const activityMessages: Record<BadgeLang, {
+  streak: (current: number, longest: number) => string;
+  lastActive: (days: number | null, monitoringDays: number) => string;
+}> = {
+  ja: {
+    streak: (current, longest) => `${current}日連続 (最長${longest}日)`,
+    lastActive: (days, monitoringDays) =>
+      days === null
+        ? `${monitoringDays}日以上前`
+        : days === 0
+        ? "今日"
+        : `${days}日前`,
+  },
+  en: {
+    streak: (current, longest) =>
+      `${current}-day streak (best ${longest})`,
+    lastActive: (days, monitoringDays) =>
+      days === null
+        ? `over ${monitoringDays} days ago`
+        : days === 0
+        ? "today"
+        : `${days} day${days === 1 ? "" : "s"} ago`,
+  },
+};
+
+// 上位リポジトリのカードでコミットがない場合の表示
+const noReposMessages: Record<BadgeLang, string> = {
+  ja: "監視期間内のコミットはありません",
+  en: "No commits in the monitoring period",
+};
+
+// 言語ごとのプロフィールカードの項目名
+const cardMessages: Record<BadgeLang, {
+  commits: (monitoringDays: number) => string;
+  repos: string;
+  lastUpdated: string;
+}> = {
+  ja: {
+    commits: (monitoringDays) => `コミット（直近${monitoringDays}日）`,
+    repos: "リポジトリ（所有 / 組織）",
+    lastUpdated: "最終更新",
+  },
+  en: {
+    commits: (monitoringDays) =>
+      `Commits (last ${monitoringDays} day${monitoringDays === 1 ? "" : "s"})`,
+    repos: "Repos (owned / org)",
+    lastUpdated: "Last updated",
+  },
+};
+
+// プロフィールカードの配色
+const cardPalettes: Record<Exclude<CardColorScheme, "auto">, {
+  background: string;
+  border: string;
+  text: string;
+  muted: string;
+  track: string;
+}> = {
+  light: {
+    background: "#fff",
+    border: "#d0d7de",
+    text: "#24292f",
+    muted: "#57606a",
+    track: "#eaeef2",
+  },
+  dark: {
+    background: "#0d1117",
+    border: "#30363d",
+    text: "#e6edf3",
+    muted: "#8b949e",
+    track: "#21262d",
+  },
+};
+
+// 上位リポジトリのカードに表示するリポジトリ名の最大文字数
+const MAX_REPO_NAME_LENGTH = 44;
+
+// ステータスごとのデフォルト色
+const statusColors: Record<HealthStatus, string> = {
+  healthy: "brightgreen",
+  moderate: "yellow",
+  inactive: "red",
+};
+
+// badge-makerの名前付きカラーと対応するカラーコード
+const namedColors: Record<string, string> = {
+  brightgreen: "#4c1",
+  green: "#97ca00",
+  yellowgreen: "#a4a61d",
+  yellow: "#dfb317",
+  orange: "#fe7d37",
+  red: "#e05d44",
+  blue: "#007ec6",
+  grey: "#555",
+  gray: "#555",
+  lightgrey: "#9f9f9f",
+  lightgray: "#9f9f9f",
+  success: "#4c1",
+  important: "#fe7d37",
+  critical: "#e05d44",
+  informational: "#007ec6",
+  inactive: "#9f9f9f",
+};
+
+const DEFAULT_LABEL = "Am I Genki?";
+const MAX_LABEL_LENGTH = 40;
+const MAX_TEXT_LENGTH = 32;
+const MAX_EMOJI_LENGTH = 8;
+
+const HEALTH_STATUSES: HealthStatus[] = ["healthy", "moderate", "inactive"];
+
+// プロフィールカードの配色の検証
+export function isValidCardColorScheme(
+  scheme: string,
+): scheme is CardColorScheme {
+  return (VALID_CARD_COLOR_SCHEMES as readonly string[]).includes(scheme);
+}
 
 // バッジスタイルの検証
 export function isValidBadgeStyle(style: string): style is BadgeStyle {
   return (VALID_BADGE_STYLES as readonly string[]).includes(style);
 }
 
-// SVGバッジの生成（badge-makerを使用）
-export function generateBadgeSVG(
+// トレンド表示形式の検証
+export function isValidTrendType(type: string): type is TrendType {
+  return (VALID_TREND_TYPES as readonly string[]).includes(type);
+}
+
+// バッジの表示内容の検証
+export function isValidBadgeMode(mode: string): mode is BadgeMode {
+  return (VALID_BADGE_MODES as readonly string[]).includes(mode);
+}
+
+// 表示言語の検証
+export function isValidBadgeLang(lang: string): lang is BadgeLang {
+  return (VALID_BADGE_LANGS as readonly string[]).includes(lang);
+}
+
+// バッジ色の検証（名前付きカラーまたは#なしも可のカラーコード）
+export function isValidBadgeColor(color: string): boolean {
+  return color.toLowerCase() in namedColors ||
+    /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color);
+}
+
+// バッジ文字列の検証（長さと制御文字）
+export function isValidBadgeText(text: string, maxLength: number): boolean {
+  return [...text].length <= maxLength && !/[\u0000-\u001f\u007f]/.test(text);
+}
+
+// バッジ色をカラーコードに変換
+export function toHexColor(color: string): string {
+  const named = namedColors[color.toLowerCase()];
+  if (named) return named;
+  return color.startsWith("#") ? color : `#${color}`;
+}
+
+// クエリパラメータからバッジテーマの指定値を取得
+export function parseBadgeThemeQuery(params: URLSearchParams): BadgeThemeInput {
+  const get = (key: string) => params.get(key) ?? undefined;
+
+  return {
+    label: get("label"),
+    lang: get("lang"),
+    hideCount: get("hideCount"),
+    healthyColor: get("healthyColor"),
+    healthyText: get("healthyText"),
+    healthyEmoji: get("healthyEmoji"),
+    moderateColor: get("moderateColor"),
+    moderateText: get("moderateText"),
+    moderateEmoji: get("moderateEmoji"),
+    inactiveColor: get("inactiveColor"),
+    inactiveText: get("inactiveText"),
+    inactiveEmoji: get("inactiveEmoji"),
+  };
+}
+
+// バッジテーマの決定（クエリ > 環境変数 > 既定値、不正な値は無視）
+export function resolveBadgeTheme(
+  ...inputs: BadgeThemeInput[]
+): BadgeTheme {
+  // 優先度の高い順に、検証を通過した最初の値を採用
+  const pick = (
+    key: keyof BadgeThemeInput,
+    isValid: (value: string) => boolean,
+  ): string | undefined =>
+    inputs.map((input) => input[key]).find((value) =>
+      value !== undefined && isValid(value)
+    );
+
+  const langValue = pick("lang", isValidBadgeLang);
+  const lang: BadgeLang = langValue && isValidBadgeLang(langValue)
+    ? langValue
+    : "ja";
+  const hideCount = pick("hideCount", (v) => v === "true" || v === "false");
+
+  const statuses = Object.fromEntries(
+    HEALTH_STATUSES.map((status) => [status, {
+      color: pick(`${status}Color`, isValidBadgeColor) ?? statusColors[status],
+      text: pick(
+        `${status}Text`,
+        (v) => v.length > 0 && isValidBadgeText(v, MAX_TEXT_LENGTH),
+      ) ?? statusMessages[lang][status].text,
+      emoji: pick(
+        `${status}Emoji`,
+        (v) => isValidBadgeText(v, MAX_EMOJI_LENGTH),
+      ) ?? statusMessages[lang][status].emoji,
+    }]),
+  ) as BadgeTheme["statuses"];
+
+  return {
+    label: pick(
+      "label",
+      (v) => v.length > 0 && isValidBadgeText(v, MAX_LABEL_LENGTH),
+    ) ?? DEFAULT_LABEL,
+    lang,
+    hideCount: hideCount === "true",
+    statuses,
+  };
+}
+
+// ステータス表示のテキスト（絵文字は空なら省略）
+export function getStatusText(theme: BadgeTheme, status: HealthStatus): string {
+  const { emoji, text } = theme.statuses[status];
+  return emoji ? `${emoji} ${text}` : text;
+}
+
+// 表示用のスコア（上限到達・レート制限で一部のみの集計の場合は「100+」のように表示）
+export function formatScore(data: CacheData): string {
+  const score = data.score ?? data.commits;
+  return data.partial || data.truncated ? `${score}+` : `${score}`;
+}
+
+// バッジの表示内容（SVG・shields.ioエンドポイントで共通）
+export function getBadgeContent(
   status: HealthStatus,
-  commits: number,
+  score: number | string,
+  theme: BadgeTheme = resolveBadgeTheme(),
+): BadgeContent {
+  const statusText = getStatusText(theme, status);
+
+  return {
+    label: theme.label,
+    message: theme.hideCount ? statusText : `${statusText} (${score})`,
+    color: theme.statuses[status].color,
+  };
+}
+
+// 連続記録から表示色のステータスを決定
+// （昨日・今日にコミットがあれば元気、監視期間内にあればいまいち、なければ元気ない）
+function getRecencyStatus(streak: CurrentStreak): HealthStatus {
+  if (streak.daysSinceLastCommit === null) return "inactive";
+  return streak.daysSinceLastCommit <= 1 ? "healthy" : "moderate";
+}
+
+// 連続日数・最後のコミットからの日数のバッジの表示内容
+export function getActivityBadgeContent(
+  mode: Exclude<BadgeMode, "status">,
+  streak: CurrentStreak,
+  monitoringDays: number,
+  theme: BadgeTheme = resolveBadgeTheme(),
+): BadgeContent {
+  const status = getRecencyStatus(streak);
+  const messages = activityMessages[theme.lang];
+  const text = mode === "streak"
+    ? messages.streak(streak.current, streak.longest)
+    : messages.lastActive(streak.daysSinceLastCommit, monitoringDays);
+  const { emoji, color } = theme.statuses[status];
+
+  return {
+    label: theme.label,
+    message: emoji ? `${emoji} ${text}` : text,
+    color,
+  };
+}
+
+// 表示内容からSVGバッジを生成（badge-makerを使用）
+export function makeBadgeSVG(
+  content: BadgeContent,
   style: BadgeStyle = "flat",
 ): string {
-  const statusConfig = {
-    healthy: { color: "brightgreen", text: "元気", emoji: "😎" },
-    moderate: { color: "yellow", text: "いまいち", emoji: "😑" },
-    inactive: { color: "red", text: "元気ない", emoji: "🙁" },
-  };
+  return makeBadge({ ...content, style });
+}
 
-  const config = statusConfig[status];
-  const label = "Am I Genki?";
-  const message = `${config.emoji} ${config.text} (${commits})`;
+// SVGバッジの生成
+export function generateBadgeSVG(
+  status: HealthStatus,
+  score: number | string,
+  style: BadgeStyle = "flat",
+  theme: BadgeTheme = resolveBadgeTheme(),
+): string {
+  return makeBadgeSVG(getBadgeContent(status, score, theme), style);
+}
 
-  return makeBadge({
+// 表示内容からshields.ioのエンドポイント形式のJSONを生成
+// https://shields.io/badges/endpoint-badge
+export function toEndpointJSON(
+  { label, message, color }: BadgeContent,
+  style: BadgeStyle = "flat",
+): ShieldsEndpoint {
+  return {
+    schemaVersion: 1,
     label,
     message,
-    color: config.color,
+    // shields.ioは#なしのカラーコードも受け付ける
+    color: color.replace(/^#/, ""),
+    style,
+    cacheSeconds: 3600,
+  };
+}
+
+// スパークラインの描画
+function renderSparkline(
+  series: Array<HistoryEntry | null>,
+  width: number,
+  height: number,
+  color: string,
+): string {
+  const padding = 3;
+  const max = Math.max(1, ...series.map((entry) => entry?.score ?? 0));
+  const step = series.length > 1
+    ? (width - padding * 2) / (series.length - 1)
+    : 0;
+
+  const points = series
+    .map((entry, i) =>
+      entry
+        ? {
+          x: padding + i * step,
+          y: padding + (1 - entry.score / max) * (height - padding * 2),
+        }
+        : null
+    )
+    .filter((point): point is { x: number; y: number } => point !== null);
+
+  if (points.length === 0) return "";
+
+  const last = points[points.length - 1];
+  const polyline = points
+    .map((point) => `${point.x.toFixed(1)},${point.y.toFixed(1)}`)
+    .join(" ");
+
+  return `<polyline points="${polyline}" fill="none" stroke="${color}" stroke-width="1.5" stroke-linejoin="round"/>` +
+    `<circle cx="${last.x.toFixed(1)}" cy="${last.y.toFixed(1)}" r="2" fill="${color}"/>`;
+}
+
+// ヒートマップの描画
+function renderHeatmap(
+  series: Array<HistoryEntry | null>,
+  height: number,
+  cellWidth: number,
+  gap: number,
+  theme: BadgeTheme,
+): string {
+  const cellHeight = height - gap * 4;
+
+  return series
+    .map((entry, i) => {
+      const fill = entry
+        ? toHexColor(theme.statuses[entry.status].color)
+        : "#ddd";
+      const text = entry ? escapeXml(theme.statuses[entry.status].text) : "";
+      const title = entry
+        ? `<title>${entry.date}: ${text} (${entry.score})</title>`
+        : "";
+      return `<rect x="${gap + i * (cellWidth + gap)}" y="${gap * 2}" width="${cellWidth}" height="${cellHeight}" rx="1" fill="${fill}">${title}</rect>`;
+    })
+    .join("");
+}
+
+// トレンドバッジの生成（現在のステータスバッジの右に推移を描画）
+export function generateTrendSVG(
+  series: Array<HistoryEntry | null>,
+  status: HealthStatus,
+  type: TrendType = "sparkline",
+  style: BadgeStyle = "flat",
+  theme: BadgeTheme = resolveBadgeTheme(),
+): string {
+  const color = theme.statuses[status].color;
+  const badge = makeBadge({
+    label: theme.label,
+    message: getStatusText(theme, status),
+    color,
     style,
   });
+
+  // badge-makerの出力からサイズを取得
+  const badgeWidth = parseFloat(badge.match(/width="([\d.]+)"/)?.[1] ?? "0");
+  const height = parseFloat(badge.match(/height="([\d.]+)"/)?.[1] ?? "20");
+
+  const cellWidth = 6;
+  const gap = 1;
+  const chartWidth = type === "heatmap"
+    ? gap + series.length * (cellWidth + gap)
+    : Math.max(60, series.length * 3);
+  const chart = type === "heatmap"
+    ? renderHeatmap(series, height, cellWidth, gap, theme)
+    : renderSparkline(series, chartWidth, height, toHexColor(color));
+
+  const width = badgeWidth + chartWidth;
+  const title = escapeXml(`${theme.label} trend (${series.length} days)`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${title}">` +
+    `<title>${title}</title>` +
+    badge +
+    `<g transform="translate(${badgeWidth},0)">` +
+    `<rect width="${chartWidth}" height="${height}" fill="#f6f8fa"/>` +
+    chart +
+    `</g></svg>`;
 }
 
+// 上位リポジトリのカードの生成（コミット数を棒グラフで表示）
+export function generateTopReposSVG(
+  repos: TopRepo[],
+  status: HealthStatus,
+  theme: BadgeTheme = resolveBadgeTheme(),
+): string {
+  const width = 400;
+  const padding = 15;
+  const headerHeight = 45;
+  const rowHeight = 28;
+  const rows = Math.max(repos.length, 1);
+  const height = headerHeight + rows * rowHeight + padding;
+  const color = toHexColor(theme.statuses[status].color);
+  const font = "font-family=\"Verdana,Geneva,DejaVu Sans,sans-serif\"";
+  const max = Math.max(1, ...repos.map((repo) => repo.commits));
+  const barWidth = width - padding * 2;
+
+  const text = (x: number, y: number, content: string, attrs: string) =>
+    `<text x="${x}" y="${y}" ${font} ${attrs}>${escapeXml(content)}</text>`;
+  const bar = (y: number, barWidth: string, fill: string) =>
+    `<rect x="${padding}" y="${y}" width="${barWidth}" height="4" rx="2" fill="${fill}"/>`;
+
+  const body = repos.length > 0
+    ? repos.map((repo, i) => {
+      const y = headerHeight + i * rowHeight;
+      const chars = [...repo.name];
+      const name = chars.length > MAX_REPO_NAME_LENGTH
+        ? `${chars.slice(0, MAX_REPO_NAME_LENGTH - 1).join("")}…`
+        : repo.name;
+      const filled = (barWidth * repo.commits / max).toFixed(1);
+
+      return text(padding, y + 12, name, `font-size="12" fill="#24292f"`) +
+        text(
+          width - padding,
+          y + 12,
+          `${repo.commits}`,
+          `font-size="12" fill="#57606a" text-anchor="end"`,
+        ) +
+        bar(y + 17, `${barWidth}`, "#eaeef2") +
+        bar(y + 17, filled, color);
+    }).join("")
+    : text(
+      padding,
+      headerHeight + 12,
+      noReposMessages[theme.lang],
+      `font-size="12" fill="#57606a"`,
+    );
+
+  const title = escapeXml(
+    `${theme.label}: ${getStatusText(theme, status)}`,
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${title}">` +
+    `<title>${title}</title>` +
+    `<rect x="0.5" y="0.5" width="${width - 1}" height="${height - 1}" rx="6" fill="#fff" stroke="#d0d7de"/>` +
+    text(
+      padding,
+      28,
+      theme.label,
+      `font-size="14" font-weight="bold" fill="#24292f"`,
+    ) +
+    text(
+      width - padding,
+      28,
+      getStatusText(theme, status),
+      `font-size="13" fill="${color}" text-anchor="end"`,
+    ) +
+    body +
+    `</svg>`;
+}
+
+// 配色のCSS（autoはダークモードの場合にdarkの配色で上書き）
+function getCardStyle(scheme: CardColorScheme): string {
+  const rules = (palette: typeof cardPalettes.light) =>
+    `.card{fill:${palette.background};stroke:${palette.border}}` +
+    `.fg{fill:${palette.text}}.muted{fill:${palette.muted}}` +
+    `.track{fill:${palette.track}}`;
+
+  return scheme === "auto"
+    ? `${rules(cardPalettes.light)}` +
+      `@media (prefers-color-scheme: dark){${rules(cardPalettes.dark)}}`
+    : rules(cardPalettes[scheme]);
+}
+
+// 最終更新日時の表示（指定タイムゾーンの YYYY-MM-DD HH:mm）
+function formatCardDate(iso: string, timezone: string): string {
+  const { year, month, day, hour, minute } = getZonedDateParts(
+    new Date(iso),
+    timezone,
+  );
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`;
+}
+
+// プロフィールカードの生成（元気度・コミット数・所有/組織リポジトリの内訳・最終更新）
+export function generateProfileCardSVG(
+  data: CacheData,
+  options: {
+    username: string;
+    monitoringDays: number;
+    timezone: string;
+    scheme?: CardColorScheme;
+  },
+  theme: BadgeTheme = resolveBadgeTheme(),
+): string {
+  const { username, monitoringDays, timezone, scheme = "auto" } = options;
+  const width = 400;
+  const height = 170;
+  const padding = 15;
+  const barWidth = width - padding * 2;
+  const { color, text: statusText, emoji } = theme.statuses[data.status];
+  const statusColor = toHexColor(color);
+  const messages = cardMessages[theme.lang];
+  const font = "font-family=\"Verdana,Geneva,DejaVu Sans,sans-serif\"";
+
+  // 表示する文字列はすべてエスケープする
+  const text = (x: number, y: number, content: string, attrs: string) =>
+    `<text x="${x}" y="${y}" ${font} ${attrs}>${escapeXml(content)}</text>`;
+  const row = (y: number, label: string, value: string) =>
+    text(padding, y, label, `class="muted" font-size="12"`) +
+    text(
+      width - padding,
+      y,
+      value,
+      `class="fg" font-size="12" text-anchor="end"`,
+    );
+
+  // 所有リポジトリと組織リポジトリの割合
+  const { owned, org } = data.sources;
+  const ownedWidth = owned + org > 0
+    ? (barWidth * owned / (owned + org)).toFixed(1)
+    : "0";
+  const commits = data.partial || data.truncated
+    ? `${data.commits}+`
+    : `${data.commits}`;
+
+  const title = escapeXml(
+    `${theme.label} ${username}: ${getStatusText(theme, data.status)}`,
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${title}">` +
+    `<title>${title}</title>` +
+    `<style>${getCardStyle(scheme)}</style>` +
+    `<rect class="card" x="0.5" y="0.5" width="${width - 1}" height="${height - 1}" rx="6"/>` +
+    text(
+      padding,
+      28,
+      theme.label,
+      `class="fg" font-size="14" font-weight="bold"`,
+    ) +
+    text(
+      width - padding,
+      28,
+      `@${username}`,
+      `class="muted" font-size="12" text-anchor="end"`,
+    ) +
+    (emoji ? text(padding, 66, emoji, `font-size="26"`) : "") +
+    text(
+      emoji ? padding + 40 : padding,
+      63,
+      statusText,
+      `font-size="20" font-weight="bold" fill="${statusColor}"`,
+    ) +
+    row(96, messages.commits(monitoringDays), commits) +
+    row(120, messages.repos, `${owned} / ${org}`) +
+    `<rect class="track" x="${padding}" y="127" width="${barWidth}" height="4" rx="2"/>` +
+    `<rect x="${padding}" y="127" width="${ownedWidth}" height="4" rx="2" fill="${statusColor}"/>` +
+    row(155, messages.lastUpdated, formatCardDate(data.lastUpdated, timezone)) +
+    `</svg>`;
+}
+
+// XML特殊文字のエスケープ
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
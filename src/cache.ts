@@ -1,73 +1,462 @@
-import type { Env, CacheData, Config } from "./types";
-import { getCommitCount } from "./github";
-import { getHealthStatus } from "./utils";
+import type {
+  ActivityBreakdown,
+  CacheData,
+  CommitCountResult,
+  Config,
+  Env,
+  HistoryEntry,
+  RefreshStatus,
+  RepoCursors,
+} from "./types";
+import { getActivityCounts, pruneRepoCursors } from "./github";
+import { countAllCommits } from "./forge";
+import {
+  createRequestBudget,
+  hasBudget,
+  loadRateLimit,
+  saveRateLimit,
+} from "./ratelimit";
+import { getNotificationStatusKey, notifyStatusChange } from "./notify";
+import {
+  applyRecencyDecay,
+  calculateActivityScore,
+  calculateStreak,
+  getHealthStatus,
+  getMonitoringSince,
+  getScheduledUsernames,
+  getZonedDateParts,
+  toDateString,
+} from "./utils";
 import { isBotAccount } from "./utils";
 
-// キャッシュチェック（JST更新時刻考慮）
+// 更新に失敗した場合の再試行までの待ち時間（失敗するたびに倍にする）
+const REFRESH_BACKOFF_BASE = 5 * 60 * 1000;
+const REFRESH_BACKOFF_MAX = 6 * 60 * 60 * 1000;
+
+// 一部のみ取得できた場合に取り直すまでの最短の間隔
+const PARTIAL_RETRY_INTERVAL = 10 * 60 * 1000;
+
+// 更新の状態の保持期間
+const REFRESH_STATUS_TTL = 7 * 24 * 60 * 60;
+
+// 更新サイクル上の日付（更新時刻前は前日扱い）
+function getUpdateCycleDate(
+  date: Date,
+  updateHour: number,
+  timezone: string,
+): string {
+  const { hour } = getZonedDateParts(date, timezone);
+  return toDateString(date, timezone, hour < updateHour ? 1 : 0);
+}
+
+// キャッシュチェック（指定タイムゾーンの更新時刻考慮）
 export function shouldUpdateCache(
   lastUpdated: string,
-  jstUpdateHour: number,
+  updateHour: number,
+  timezone: string,
+  now: Date = new Date(),
 ): boolean {
   const lastUpdate = new Date(lastUpdated);
-  const now = new Date();
-
-  // JSTに変換（UTC+9）
-  const jstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-  const jstLastUpdate = new Date(lastUpdate.getTime() + 9 * 60 * 60 * 1000);
 
   // 最終更新から24時間以上経過している場合
   if (now.getTime() - lastUpdate.getTime() > 24 * 60 * 60 * 1000) {
     return true;
   }
 
-  // 最終更新日と現在日が異なり、現在時刻が更新時刻を過ぎている場合
-  if (
-    jstNow.getUTCDate() !== jstLastUpdate.getUTCDate() &&
-    jstNow.getUTCHours() >= jstUpdateHour
-  ) {
-    return true;
+  // 最終更新後に更新時刻を迎えている場合（暦日で比較）
+  return getUpdateCycleDate(now, updateHour, timezone) !==
+    getUpdateCycleDate(lastUpdate, updateHour, timezone);
+}
+
+// ユーザーごとのキャッシュキー（監視期間を指定した場合は期間ごとに分ける）
+export function getCacheKey(username: string, monitoringDays?: number): string {
+  const key = `github-health:${username.toLowerCase()}`;
+  return monitoringDays === undefined ? key : `${key}:${monitoringDays}d`;
+}
+
+// 設定どおりの監視期間のキャッシュか判定
+// 期間を指定したキャッシュは増分集計・履歴・通知の対象外
+function isDefaultWindow(config: Config, cacheKey: string): boolean {
+  return cacheKey === getCacheKey(config.username);
+}
+
+// ユーザーごとの履歴キー
+export function getHistoryKey(username: string): string {
+  return `github-health-history:${username.toLowerCase()}`;
+}
+
+// 履歴の取得（古い順）
+export async function getHistory(
+  env: Env,
+  username: string,
+): Promise<HistoryEntry[]> {
+  const history = await env.AM_I_GENKI_CACHE.get(
+    getHistoryKey(username),
+    "json",
+  ) as HistoryEntry[] | null;
+  return history ?? [];
+}
+
+// 直近N日分の履歴を日付順に並べる（記録のない日はnull）
+export function getHistorySeries(
+  history: HistoryEntry[],
+  days: number,
+  timezone: string,
+  now: Date = new Date(),
+): Array<HistoryEntry | null> {
+  const byDate = new Map(history.map((entry) => [entry.date, entry]));
+  const series: Array<HistoryEntry | null> = [];
+
+  for (let i = days - 1; i >= 0; i--) {
+    series.push(byDate.get(toDateString(now, timezone, i)) ?? null);
   }
 
-  return false;
+  return series;
 }
 
-// バックグラウンド更新関数
-export async function updateCacheInBackground(
+// 当日分の履歴を追加（同じ日の記録は上書き）し、保持期間を過ぎたものを削除
+export async function appendHistory(
   env: Env,
   config: Config,
+  data: CacheData,
+): Promise<void> {
+  const lastUpdated = new Date(data.lastUpdated);
+  const today = toDateString(lastUpdated, config.timezone);
+  const oldestDate = toDateString(
+    lastUpdated,
+    config.timezone,
+    config.historyDays - 1,
+  );
+
+  const history = (await getHistory(env, config.username))
+    .filter((entry) => entry.date !== today && entry.date >= oldestDate);
+
+  history.push({
+    date: today,
+    commits: data.commits,
+    score: data.score ?? data.commits,
+    status: data.status,
+  });
+
+  await env.AM_I_GENKI_CACHE.put(
+    getHistoryKey(config.username),
+    JSON.stringify(history),
+    { expirationTtl: config.historyDays * 24 * 60 * 60 },
+  );
+}
+
+// ユーザーごとの増分集計の状態キー
+export function getRepoCursorsKey(username: string): string {
+  return `github-repo-cursors:${username.toLowerCase()}`;
+}
+
+// 増分集計の状態を取得
+export async function getRepoCursors(
+  env: Env,
+  username: string,
+): Promise<RepoCursors> {
+  const cursors = await env.AM_I_GENKI_CACHE.get(
+    getRepoCursorsKey(username),
+    "json",
+  ) as RepoCursors | null;
+  return cursors ?? {};
+}
+
+// 増分集計の状態を保存（監視期間が過ぎれば不要になる）
+export async function saveRepoCursors(
+  env: Env,
+  config: Config,
+  cursors: RepoCursors,
+) {
+  pruneRepoCursors(
+    cursors,
+    getMonitoringSince(config.monitoringDays, config.timezone),
+    config.timezone,
+  );
+
+  await env.AM_I_GENKI_CACHE.put(
+    getRepoCursorsKey(config.username),
+    JSON.stringify(cursors),
+    {
+      expirationTtl: Math.max(
+        config.cacheTTL,
+        (config.monitoringDays + 1) * 24 * 60 * 60,
+      ),
+    },
+  );
+}
+
+// キャッシュキーごとの更新の状態キー
+// 監視期間を指定したキャッシュの失敗で、設定どおりの期間の更新を止めないよう分ける
+export function getRefreshStatusKey(cacheKey: string): string {
+  return cacheKey.replace(/^github-health:/, "github-refresh-status:");
+}
+
+// 更新の状態を取得
+export async function getRefreshStatus(
+  env: Env,
   cacheKey: string,
+): Promise<RefreshStatus | null> {
+  return await env.AM_I_GENKI_CACHE.get(
+    getRefreshStatusKey(cacheKey),
+    "json",
+  ) as RefreshStatus | null;
+}
+
+// 失敗後の再試行待ちか判定
+export function isRefreshBackingOff(
+  status: RefreshStatus | null,
+  now: Date = new Date(),
+): boolean {
+  return !!status?.retryAfter && new Date(status.retryAfter) > now;
+}
+
+// 一部のみ取得できた場合の取り直し時刻（使い切ったレート制限の解除と最短の間隔の遅い方）
+async function getPartialRetryAfter(
+  env: Env,
+  config: Config,
+  now: Date,
+): Promise<Date> {
+  const budget = createRequestBudget(
+    config.rateLimitReserve,
+    config.githubApiUrl,
+  );
+  await loadRateLimit(env, budget);
+
+  const resets = Object.entries(budget.resources)
+    .filter(([resource]) => !hasBudget(budget, resource))
+    .map(([, info]) => info.reset * 1000);
+  return new Date(Math.max(now.getTime() + PARTIAL_RETRY_INTERVAL, ...resets));
+}
+
+// 更新の結果を記録（失敗時は連続失敗回数に応じて、一部のみ取得できた場合はレート制限の解除まで再試行を遅らせる）
+async function recordRefreshResult(
+  env: Env,
+  config: Config,
+  cacheKey: string,
+  result: { data: CacheData } | { error: unknown },
 ) {
+  const now = new Date();
+  const previous = await getRefreshStatus(env, cacheKey);
+  let status: RefreshStatus;
+
+  if ("data" in result) {
+    status = {
+      lastAttemptAt: now.toISOString(),
+      lastSuccessAt: now.toISOString(),
+      failures: 0,
+      retryAfter: result.data.partial
+        ? (await getPartialRetryAfter(env, config, now)).toISOString()
+        : undefined,
+    };
+  } else {
+    const { error } = result;
+    const failures = (previous?.failures ?? 0) + 1;
+    const backoff = Math.min(
+      REFRESH_BACKOFF_BASE * 2 ** (failures - 1),
+      REFRESH_BACKOFF_MAX,
+    );
+    status = {
+      lastAttemptAt: now.toISOString(),
+      lastSuccessAt: previous?.lastSuccessAt,
+      lastError: {
+        message: error instanceof Error ? error.message : String(error),
+        at: now.toISOString(),
+      },
+      failures,
+      retryAfter: new Date(now.getTime() + backoff).toISOString(),
+    };
+  }
+
+  await env.AM_I_GENKI_CACHE.put(
+    getRefreshStatusKey(cacheKey),
+    JSON.stringify(status),
+    { expirationTtl: REFRESH_STATUS_TTL },
+  );
+}
+
+// ユーザーのキャッシュ・増分集計の状態・更新と通知の状態を削除（includeHistoryなら履歴も）
+export async function purgeCache(
+  env: Env,
+  username: string,
+  includeHistory: boolean = false,
+) {
+  // 監視期間を指定したキャッシュとその更新の状態
+  const cacheKey = getCacheKey(username);
+  const windows = await Promise.all(
+    [cacheKey, getRefreshStatusKey(cacheKey)].map((key) =>
+      env.AM_I_GENKI_CACHE.list({ prefix: `${key}:` })
+    ),
+  );
+
+  const keys = [
+    ...windows.flatMap((list) => list.keys.map((key) => key.name)),
+    cacheKey,
+    getRepoCursorsKey(username),
+    getRefreshStatusKey(cacheKey),
+    getNotificationStatusKey(username),
+  ];
+  if (includeHistory) keys.push(getHistoryKey(username));
+
+  await Promise.all(keys.map((key) => env.AM_I_GENKI_CACHE.delete(key)));
+}
+
+// 最新データを取得してキャッシュに保存し、結果を更新の状態に記録
+export async function refreshCache(
+  env: Env,
+  config: Config,
+  cacheKey: string,
+): Promise<CacheData> {
+  let data: CacheData;
   try {
-    // Botユーザーチェック（簡易チェック）
-    if (isBotAccount(config.username)) {
-      console.error("Bot users are not supported");
-      return;
-    }
+    data = await fetchCacheData(env, config, cacheKey);
+  } catch (error) {
+    await recordRefreshResult(env, config, cacheKey, { error });
+    throw error;
+  }
+
+  await recordRefreshResult(env, config, cacheKey, { data });
+  return data;
+}
+
+// 最新データを取得してキャッシュに保存
+async function fetchCacheData(
+  env: Env,
+  config: Config,
+  cacheKey: string,
+): Promise<CacheData> {
+  // 新規データ取得
+  // 他のリクエストで記録されたレート制限を確認し、使い切っていれば取得しない
+  const budget = createRequestBudget(
+    config.rateLimitReserve,
+    config.githubApiUrl,
+  );
+  await loadRateLimit(env, budget);
 
-    // 新規データ取得
-    const result = await getCommitCount(
+  const resource = config.commitDataSource === "graphql" ? "graphql" : "core";
+  if (!hasBudget(budget, resource)) {
+    const reset = new Date(budget.resources[resource].reset * 1000);
+    throw new Error(
+      `GitHub API rate limit is exhausted until ${reset.toISOString()}`,
+    );
+  }
+
+  // REST版はリポジトリごとの状態から増分で集計する
+  const defaultWindow = isDefaultWindow(config, cacheKey);
+  const cursors = config.commitDataSource === "rest" && defaultWindow
+    ? await getRepoCursors(env, config.username)
+    : undefined;
+
+  let result: CommitCountResult;
+  let activityCounts: Omit<ActivityBreakdown, "commits">;
+  try {
+    result = await countAllCommits(
       config.username,
       config.monitoringDays,
       config,
+      budget,
+      cursors,
     );
-
-    const status = getHealthStatus(
-      result.commits,
-      config.healthyThreshold,
-      config.moderateThreshold,
+    activityCounts = await getActivityCounts(
+      config.username,
+      config.monitoringDays,
+      config,
+      budget,
     );
+  } finally {
+    // 取得したレート制限を他のリクエストと共有
+    await saveRateLimit(env, budget);
+  }
 
-    const data: CacheData = {
-      commits: result.commits,
-      status,
-      lastUpdated: new Date().toISOString(),
-      sources: result.sources,
-    };
+  if (cursors) {
+    await saveRepoCursors(env, config, cursors);
+  }
+
+  const activity: ActivityBreakdown = {
+    commits: result.commits,
+    ...activityCounts,
+  };
+
+  const score = calculateActivityScore(
+    applyRecencyDecay(
+      activity,
+      result.daily,
+      config.recencyHalfLife,
+      config.timezone,
+    ),
+    config.activityWeights,
+  );
+  const status = getHealthStatus(
+    score,
+    config.healthyThreshold,
+    config.moderateThreshold,
+  );
+
+  let data: CacheData = {
+    commits: result.commits,
+    status,
+    lastUpdated: new Date().toISOString(),
+    sources: result.sources,
+    repos: result.repos,
+    privateCommits: result.privateCommits,
+    daily: result.daily,
+    streak: calculateStreak(result.daily, config.timezone),
+    activity,
+    score,
+    partial: budget.limited || !!result.partial,
+    truncated: result.truncated,
+  };
+
+  // 一部のみ取得できた場合、取得できなかった分を0とみなさないよう、前回より少なければ前回の値を残す
+  if (data.partial) {
+    const previous = await env.AM_I_GENKI_CACHE.get(cacheKey, "json") as
+      | CacheData
+      | null;
+    if (previous && (previous.score ?? previous.commits) > score) {
+      data = { ...previous, lastUpdated: data.lastUpdated, partial: true };
+    }
+  }
+
+  // キャッシュ保存
+  await env.AM_I_GENKI_CACHE.put(cacheKey, JSON.stringify(data), {
+    expirationTtl: config.cacheTTL,
+  });
+
+  // 履歴に記録（一部のみの集計は実際より低く出るため記録しない）
+  if (defaultWindow && !data.partial) {
+    await appendHistory(env, config, data);
+  }
+
+  return data;
+}
+
+// バックグラウンド更新関数（元気度が変化した場合は通知する）
+export async function updateCacheInBackground(
+  env: Env,
+  config: Config,
+  cacheKey: string,
+) {
+  try {
+    // Botユーザーチェック（簡易チェック）
+    if (
+      isBotAccount(
+        config.username,
+        undefined,
+        undefined,
+        config.commitFilter.botPatterns,
+      )
+    ) {
+      console.error("Bot users are not supported");
+      return;
+    }
 
-    // キャッシュ保存
-    await env.AM_I_GENKI_CACHE.put(cacheKey, JSON.stringify(data), {
-      expirationTtl: config.cacheTTL,
-    });
+    const previous = await env.AM_I_GENKI_CACHE.get(cacheKey, "json") as
+      | CacheData
+      | null;
+    const data = await refreshCache(env, config, cacheKey);
+    if (isDefaultWindow(config, cacheKey)) {
+      await notifyStatusChange(env, config, previous, data);
+    }
 
     console.log(`Cache updated successfully for ${config.username}`);
   } catch (error) {
@@ -80,4 +469,90 @@ export async function updateCacheInBackground(
       });
     }
   }
-}
\ No newline at end of file
+}
+
+// キャッシュデータの取得（SWR）
+// キャッシュがあれば常に返し、更新時刻を過ぎていればバックグラウンドで更新する
+// scheduledUsernamesはユーザー名を上書きする前の設定から求めた定期更新の対象ユーザー
+export async function getCacheData(
+  env: Env,
+  ctx: ExecutionContext,
+  config: Config,
+  cacheKey: string,
+  scheduledUsernames: string[] = [],
+): Promise<CacheData> {
+  const cached = await env.AM_I_GENKI_CACHE.get(cacheKey, "json") as
+    | CacheData
+    | null;
+
+  // キャッシュがない場合は同期的に取得（直前に失敗していれば再試行を待つ）
+  if (!cached) {
+    const status = await getRefreshStatus(env, cacheKey);
+    if (status?.lastError && isRefreshBackingOff(status)) {
+      throw new Error(
+        `Refresh for ${config.username} is backing off until ${status?.retryAfter}: ${status?.lastError?.message}`,
+      );
+    }
+    return refreshCache(env, config, cacheKey);
+  }
+
+  // 定期更新の対象ユーザーはCronに任せてKVの読み取りのみ行う
+  // Cronは設定どおりの監視期間のみ更新するため、期間を指定したキャッシュは通常どおり更新する
+  if (
+    config.scheduledRefresh && isDefaultWindow(config, cacheKey) &&
+    isScheduledUser(config.username, scheduledUsernames)
+  ) {
+    return cached;
+  }
+
+  // 更新が必要な場合はwaitUntilを使ってバックグラウンドで更新
+  // 一部のみ取得できたデータは、レート制限の解除後に取り直す（それまでは再試行を待つ）
+  if (
+    (cached.partial ||
+      shouldUpdateCache(
+        cached.lastUpdated,
+        config.updateHour,
+        config.timezone,
+      )) &&
+    !isRefreshBackingOff(await getRefreshStatus(env, cacheKey))
+  ) {
+    ctx.waitUntil(updateCacheInBackground(env, config, cacheKey));
+  }
+
+  return cached;
+}
+
+// 定期更新の対象ユーザーか判定
+function isScheduledUser(
+  username: string,
+  scheduledUsernames: string[],
+): boolean {
+  const target = username.toLowerCase();
+  return scheduledUsernames.some((user) => user.toLowerCase() === target);
+}
+
+// 定期更新（Cronトリガーから実行）
+// 更新時刻を過ぎているユーザーのみ、レート制限を考慮して順番に更新する
+export async function runScheduledRefresh(env: Env, config: Config) {
+  for (const username of getScheduledUsernames(config)) {
+    const userConfig = { ...config, username };
+    const cacheKey = getCacheKey(username);
+    const cached = await env.AM_I_GENKI_CACHE.get(cacheKey, "json") as
+      | CacheData
+      | null;
+
+    if (
+      cached && !cached.partial &&
+      !shouldUpdateCache(cached.lastUpdated, config.updateHour, config.timezone)
+    ) {
+      continue;
+    }
+
+    // 直前に失敗したユーザーは再試行まで待つ
+    if (isRefreshBackingOff(await getRefreshStatus(env, cacheKey))) {
+      continue;
+    }
+
+    await updateCacheInBackground(env, userConfig, cacheKey);
+  }
+}
@@ -0,0 +1,740 @@
+import type {
+  CommitDataSource,
+  Config,
+  ConfigError,
+  ConfigResult,
+  Env,
+  ForgeInstance,
+  HealthStatus,
+  NotifyRule,
+  NotifyTarget,
+  TeamConfig,
+  TokenCheck,
+} from "./types";
+import { VALID_BADGE_LANGS, VALID_NOTIFY_TARGET_TYPES } from "./types";
+import { checkGithubToken } from "./github";
+import { isValidBadgeColor, isValidBadgeLang } from "./badge";
+import { compilePattern, isValidUsername } from "./utils";
+
+// トークン確認結果のキャッシュ保持時間（秒）
+const TOKEN_CHECK_TTL = 300;
+
+// 伏せ字にした値
+const REDACTED = "[redacted]";
+
+// 文字列の環境変数名
+type EnvVar = {
+  [K in keyof Env]-?: Env[K] extends string | undefined ? K : never;
+}[keyof Env];
+
+// 数値の許容範囲
+interface NumberRange {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// 数値の読み込み（未設定・不正値・範囲外はデフォルト値を使用）
+function readNumber(
+  env: Env,
+  errors: ConfigError[],
+  key: EnvVar,
+  defaultValue: number,
+  range: NumberRange = {},
+): number {
+  const value = env[key]?.trim();
+  if (!value) return defaultValue;
+
+  const integer = range.integer ?? true;
+  const number = Number(value);
+  if (!Number.isFinite(number) || (integer && !Number.isInteger(number))) {
+    errors.push({
+      key,
+      code: "invalid_number",
+      message: `${key} must be ${integer ? "an integer" : "a number"}`,
+      value,
+    });
+    return defaultValue;
+  }
+
+  const { min, max } = range;
+  const isTooSmall = min !== undefined && number < min;
+  const isTooLarge = max !== undefined && number > max;
+  if (isTooSmall || isTooLarge) {
+    const bounds = max === undefined
+      ? `at least ${min}`
+      : min === undefined
+      ? `at most ${max}`
+      : `between ${min} and ${max}`;
+    errors.push({
+      key,
+      code: "out_of_range",
+      message: `${key} must be ${bounds}`,
+      value,
+    });
+    return defaultValue;
+  }
+
+  return number;
+}
+
+// 真偽値の読み込み（"true"/"false"以外は不正値としてデフォルト値を使用）
+function readBoolean(
+  env: Env,
+  errors: ConfigError[],
+  key: EnvVar,
+  defaultValue: boolean = false,
+): boolean {
+  const value = env[key]?.trim();
+  if (!value) return defaultValue;
+  if (value === "true" || value === "false") return value === "true";
+
+  errors.push({
+    key,
+    code: "invalid_value",
+    message: `${key} must be "true" or "false"`,
+    value,
+  });
+  return defaultValue;
+}
+
+// しきい値の大小関係の検証（不正な場合はデフォルト値の組を使用）
+function readThresholds(
+  errors: ConfigError[],
+  key: EnvVar,
+  healthy: number,
+  moderate: number,
+  defaults: [number, number],
+): [number, number] {
+  if (moderate < healthy) return [healthy, moderate];
+
+  errors.push({
+    key,
+    code: "invalid_order",
+    message: `${key} (${moderate}) must be less than ` +
+      `the healthy threshold (${healthy}). Using ${defaults.join("/")}`,
+    value: String(moderate),
+  });
+  return defaults;
+}
+
+// 設定値の読み込みと検証
+// 不正な値はデフォルト値で置き換え、検証エラーとともに返す
+export function loadConfig(env: Env): ConfigResult {
+  const errors: ConfigError[] = [];
+  const number = (
+    key: EnvVar,
+    defaultValue: number,
+    range?: NumberRange,
+  ) => readNumber(env, errors, key, defaultValue, range);
+  const boolean = (key: EnvVar) => readBoolean(env, errors, key);
+
+  if (!env.GITHUB_USERNAME) {
+    errors.push({
+      key: "GITHUB_USERNAME",
+      code: "required",
+      message: "GITHUB_USERNAME is not set",
+    });
+  } else if (!isValidUsername(env.GITHUB_USERNAME)) {
+    errors.push({
+      key: "GITHUB_USERNAME",
+      code: "invalid_value",
+      message: "GITHUB_USERNAME is not a valid GitHub username",
+      value: env.GITHUB_USERNAME,
+    });
+  }
+
+  const [healthyThreshold, moderateThreshold] = readThresholds(
+    errors,
+    "MODERATE_THRESHOLD",
+    number("HEALTHY_THRESHOLD", 15, { min: 0 }),
+    number("MODERATE_THRESHOLD", 5, { min: 0 }),
+    [15, 5],
+  );
+  const [teamHealthyThreshold, teamModerateThreshold] = readThresholds(
+    errors,
+    "TEAM_MODERATE_THRESHOLD",
+    number("TEAM_HEALTHY_THRESHOLD", healthyThreshold, { min: 0 }),
+    number("TEAM_MODERATE_THRESHOLD", moderateThreshold, { min: 0 }),
+    [healthyThreshold, moderateThreshold],
+  );
+
+  const config: Config = {
+    username: env.GITHUB_USERNAME,
+    healthyThreshold,
+    moderateThreshold,
+    monitoringDays: number("MONITORING_DAYS", 14, { min: 1, max: 365 }),
+    // KVのexpirationTtlは60秒以上
+    cacheTTL: number("CACHE_TTL", 86400, { min: 60 }),
+    updateHour: number(
+      env.UPDATE_HOUR !== undefined ? "UPDATE_HOUR" : "JST_UPDATE_HOUR",
+      8,
+      { min: 0, max: 23 },
+    ),
+    timezone: parseTimezone(env.UPDATE_TIMEZONE, errors),
+    githubToken: env.GITHUB_TOKEN,
+    githubApiUrl: parseUrl(
+      env.GITHUB_API_URL,
+      "GITHUB_API_URL",
+      "https://api.github.com",
+      errors,
+    ),
+    forges: parseForges(env, errors),
+    includeOrgRepos: boolean("INCLUDE_ORG_REPOS"),
+    includePrivateRepos: parseIncludePrivateRepos(env, errors),
+    maxReposPerOrg: number("MAX_REPOS_PER_ORG", 5, { min: 1, max: 100 }),
+    maxRepos: number("MAX_REPOS", 20, { min: 1 }),
+    maxCommitsPerRepo: number("MAX_COMMITS_PER_REPO", 1000, { min: 1 }),
+    teams: parseTeams(env.TEAMS, errors),
+    webhookSecret: env.GITHUB_WEBHOOK_SECRET,
+    adminToken: env.ADMIN_TOKEN,
+    teamHealthyThreshold,
+    teamModerateThreshold,
+    excludeRepos: env.EXCLUDE_REPOS
+      ? parsePatterns(env.EXCLUDE_REPOS, "EXCLUDE_REPOS", errors)
+      : ["dotfiles"],
+    excludeOrgs: parsePatterns(env.EXCLUDE_ORGS, "EXCLUDE_ORGS", errors),
+    commitFilter: {
+      botPatterns: parsePatterns(env.BOT_PATTERNS, "BOT_PATTERNS", errors),
+      authorEmails: parseAuthorEmails(env.AUTHOR_EMAILS, errors),
+      countCoAuthored: boolean("COUNT_CO_AUTHORED"),
+      countMergeCommits: boolean("COUNT_MERGE_COMMITS"),
+    },
+    allowedUsernames: parseUsernames(env.ALLOWED_USERNAMES, errors),
+    commitDataSource: parseCommitDataSource(env, errors),
+    activityWeights: {
+      commits: number("WEIGHT_COMMITS", 1, { min: 0, integer: false }),
+      pullRequests: number("WEIGHT_PULL_REQUESTS", 0, {
+        min: 0,
+        integer: false,
+      }),
+      mergedPullRequests: number("WEIGHT_MERGED_PULL_REQUESTS", 0, {
+        min: 0,
+        integer: false,
+      }),
+      reviews: number("WEIGHT_REVIEWS", 0, { min: 0, integer: false }),
+      issues: number("WEIGHT_ISSUES", 0, { min: 0, integer: false }),
+      comments: number("WEIGHT_COMMENTS", 0, { min: 0, integer: false }),
+    },
+    historyDays: number("HISTORY_DAYS", 90, { min: 1, max: 3650 }),
+    scheduledRefresh: boolean("SCHEDULED_REFRESH"),
+    badgeTheme: {
+      label: env.BADGE_LABEL,
+      lang: env.BADGE_LANG,
+      hideCount: env.BADGE_HIDE_COUNT,
+      healthyColor: env.BADGE_HEALTHY_COLOR,
+      healthyText: env.BADGE_HEALTHY_TEXT,
+      healthyEmoji: env.BADGE_HEALTHY_EMOJI,
+      moderateColor: env.BADGE_MODERATE_COLOR,
+      moderateText: env.BADGE_MODERATE_TEXT,
+      moderateEmoji: env.BADGE_MODERATE_EMOJI,
+      inactiveColor: env.BADGE_INACTIVE_COLOR,
+      inactiveText: env.BADGE_INACTIVE_TEXT,
+      inactiveEmoji: env.BADGE_INACTIVE_EMOJI,
+    },
+    rateLimitReserve: number("RATE_LIMIT_RESERVE", 10, { min: 0 }),
+    recencyHalfLife: number("RECENCY_HALF_LIFE", 0, {
+      min: 0,
+      integer: false,
+    }),
+    notify: {
+      targets: parseNotifyTargets(env.NOTIFY_TARGETS, errors),
+      transitions: parseNotifyTransitions(env.NOTIFY_TRANSITIONS, errors),
+      cooldown: number("NOTIFY_COOLDOWN", 6 * 60 * 60, { min: 0 }),
+    },
+  };
+
+  validateBadgeTheme(env, errors);
+
+  return { config, errors };
+}
+
+// 設定値の取得（検証エラーはログに出力）
+export function getConfig(env: Env): Config {
+  const { config, errors } = loadConfig(env);
+  for (const error of errors) {
+    console.warn(`Invalid config: ${error.message}`);
+  }
+  return config;
+}
+
+// バッジテーマの検証（不正な値はバッジ生成時に無視される）
+function validateBadgeTheme(env: Env, errors: ConfigError[]) {
+  if (env.BADGE_LANG && !isValidBadgeLang(env.BADGE_LANG)) {
+    errors.push({
+      key: "BADGE_LANG",
+      code: "invalid_value",
+      message: `BADGE_LANG must be one of ${VALID_BADGE_LANGS.join(", ")}`,
+      value: env.BADGE_LANG,
+    });
+  }
+
+  readBoolean(env, errors, "BADGE_HIDE_COUNT");
+
+  const colorKeys: EnvVar[] = [
+    "BADGE_HEALTHY_COLOR",
+    "BADGE_MODERATE_COLOR",
+    "BADGE_INACTIVE_COLOR",
+  ];
+  for (const key of colorKeys) {
+    const value = env[key];
+    if (value && !isValidBadgeColor(value)) {
+      errors.push({
+        key,
+        code: "invalid_value",
+        message: `${key} must be a color name or hex color code`,
+        value,
+      });
+    }
+  }
+}
+
+// チーム定義の解析
+// 形式: "チーム名:user1,user2;チーム名:@org/team-slug"
+function parseTeams(
+  teams: string | undefined,
+  errors: ConfigError[],
+): TeamConfig[] {
+  if (!teams) return [];
+
+  return teams.split(";")
+    .map((team) => team.trim())
+    .filter((team) => team.length > 0)
+    .flatMap((team): TeamConfig[] => {
+      const separator = team.indexOf(":");
+      const name = team.slice(0, separator).trim();
+      const value = team.slice(separator + 1).trim();
+      if (separator < 0 || !/^[a-z\d_-]+$/i.test(name)) {
+        errors.push({
+          key: "TEAMS",
+          code: "invalid_value",
+          message: `Invalid team definition "${team}" in TEAMS`,
+          value: team,
+        });
+        return [];
+      }
+
+      // GitHubのOrganizationチーム
+      const orgTeam = value.match(/^@([^/\s]+)\/([^/\s]+)$/);
+      if (orgTeam) {
+        return [{
+          name,
+          members: [],
+          orgTeam: { org: orgTeam[1], slug: orgTeam[2] },
+        }];
+      }
+
+      return [{
+        name,
+        members: value.split(",")
+          .map((member) => member.trim())
+          .filter((member) => member.length > 0),
+      }];
+    });
+}
+
+// ユーザー名一覧の解析（カンマ区切り、不正なユーザー名は除外）
+function parseUsernames(
+  usernames: string | undefined,
+  errors: ConfigError[],
+): string[] {
+  if (!usernames) return [];
+
+  return usernames.split(",")
+    .map((user) => user.trim())
+    .filter((user) => {
+      if (user.length === 0) return false;
+      if (isValidUsername(user)) return true;
+      errors.push({
+        key: "ALLOWED_USERNAMES",
+        code: "invalid_value",
+        message: `Invalid username "${user}" in ALLOWED_USERNAMES`,
+        value: user,
+      });
+      return false;
+    });
+}
+
+// パターン一覧の解析（カンマ区切り、不正な正規表現は除外）
+function parsePatterns(
+  patterns: string | undefined,
+  key: EnvVar,
+  errors: ConfigError[],
+): string[] {
+  if (!patterns) return [];
+
+  return patterns.split(",")
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => {
+      if (pattern.length === 0) return false;
+      if (compilePattern(pattern)) return true;
+      errors.push({
+        key,
+        code: "invalid_value",
+        message: `Invalid pattern "${pattern}" in ${key}`,
+        value: pattern,
+      });
+      return false;
+    });
+}
+
+// ユーザーごとのメールアドレスの解析
+// 形式: "user1:me@example.com,me@work.example.com;user2:..."
+function parseAuthorEmails(
+  emails: string | undefined,
+  errors: ConfigError[],
+): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  if (!emails) return result;
+
+  for (const entry of emails.split(";")) {
+    const separator = entry.indexOf(":");
+    const username = entry.slice(0, separator).trim().toLowerCase();
+    if (separator < 0 || !isValidUsername(username)) {
+      if (entry.trim().length > 0) {
+        errors.push({
+          key: "AUTHOR_EMAILS",
+          code: "invalid_value",
+          message: `Invalid author emails "${entry.trim()}" in AUTHOR_EMAILS`,
+        });
+      }
+      continue;
+    }
+
+    result[username] = [
+      ...(result[username] ?? []),
+      ...entry.slice(separator + 1).split(",")
+        .map((email) => email.trim().toLowerCase())
+        .filter((email) => email.includes("@")),
+    ];
+  }
+
+  return result;
+}
+
+// APIのURLの解析（末尾の/は除く、不正な値はデフォルト値を使用）
+function parseUrl(
+  url: string | undefined,
+  key: EnvVar,
+  defaultValue: string,
+  errors: ConfigError[],
+): string {
+  if (!url) return defaultValue;
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === "https:" || parsed.protocol === "http:") {
+      return url.replace(/\/+$/, "");
+    }
+  } catch {
+    // 下でエラーとして記録
+  }
+
+  errors.push({
+    key,
+    code: "invalid_value",
+    message: `${key} must be an http(s) URL` +
+      (defaultValue ? `. Using ${defaultValue}` : ""),
+    value: url,
+  });
+  return defaultValue;
+}
+
+// フォージのユーザー名の解析
+// 形式: "name"（デフォルトユーザー）または "githubUser:name;githubUser2:name2"
+function parseForgeUsernames(
+  value: string,
+  key: EnvVar,
+  defaultUsername: string | undefined,
+  errors: ConfigError[],
+): Record<string, string> {
+  const usernames: Record<string, string> = {};
+
+  for (const entry of value.split(";").map((entry) => entry.trim())) {
+    if (entry.length === 0) continue;
+
+    const separator = entry.indexOf(":");
+    const githubUser = separator < 0
+      ? defaultUsername
+      : entry.slice(0, separator).trim();
+    const forgeUser = entry.slice(separator + 1).trim();
+    if (
+      !githubUser || !isValidUsername(githubUser) ||
+      !/^[\w.-]+$/.test(forgeUser)
+    ) {
+      errors.push({
+        key,
+        code: "invalid_value",
+        message: `Invalid username mapping "${entry}" in ${key}`,
+        value: entry,
+      });
+      continue;
+    }
+
+    usernames[githubUser.toLowerCase()] = forgeUser;
+  }
+
+  return usernames;
+}
+
+// GitHub以外のフォージの設定（ユーザー名が設定されたもののみ有効）
+function parseForges(env: Env, errors: ConfigError[]): ForgeInstance[] {
+  const forges: ForgeInstance[] = [];
+
+  if (env.GITLAB_USERNAME) {
+    forges.push({
+      type: "gitlab",
+      baseUrl: parseUrl(
+        env.GITLAB_URL,
+        "GITLAB_URL",
+        "https://gitlab.com",
+        errors,
+      ),
+      token: env.GITLAB_TOKEN,
+      usernames: parseForgeUsernames(
+        env.GITLAB_USERNAME,
+        "GITLAB_USERNAME",
+        env.GITHUB_USERNAME,
+        errors,
+      ),
+    });
+  }
+
+  // Gitea・Forgejoは共通のホストがないためURLが必須
+  if (env.GITEA_USERNAME) {
+    const baseUrl = parseUrl(env.GITEA_URL, "GITEA_URL", "", errors);
+    if (!env.GITEA_URL) {
+      errors.push({
+        key: "GITEA_URL",
+        code: "required",
+        message: "GITEA_URL is required when GITEA_USERNAME is set",
+      });
+    }
+
+    if (baseUrl) {
+      forges.push({
+        type: "gitea",
+        baseUrl,
+        token: env.GITEA_TOKEN,
+        usernames: parseForgeUsernames(
+          env.GITEA_USERNAME,
+          "GITEA_USERNAME",
+          env.GITHUB_USERNAME,
+          errors,
+        ),
+      });
+    }
+  }
+
+  return forges;
+}
+
+// タイムゾーンの解析（不正なIANAタイムゾーン名はAsia/Tokyoを使用）
+function parseTimezone(
+  timezone: string | undefined,
+  errors: ConfigError[],
+): string {
+  if (!timezone) return "Asia/Tokyo";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return timezone;
+  } catch {
+    errors.push({
+      key: "UPDATE_TIMEZONE",
+      code: "invalid_value",
+      message: "UPDATE_TIMEZONE must be an IANA time zone name. Using Asia/Tokyo",
+      value: timezone,
+    });
+    return "Asia/Tokyo";
+  }
+}
+
+// コミット数の取得元を決定（GraphQLはトークンが必要なためRESTにフォールバック）
+function parseCommitDataSource(
+  env: Env,
+  errors: ConfigError[],
+): CommitDataSource {
+  const source = env.COMMIT_DATA_SOURCE;
+  if (source && source !== "rest" && source !== "graphql") {
+    errors.push({
+      key: "COMMIT_DATA_SOURCE",
+      code: "invalid_value",
+      message: `COMMIT_DATA_SOURCE must be "rest" or "graphql"`,
+      value: source,
+    });
+  }
+
+  if (source === "graphql") {
+    if (env.GITHUB_TOKEN) return "graphql";
+    errors.push({
+      key: "COMMIT_DATA_SOURCE",
+      code: "invalid_value",
+      message: "COMMIT_DATA_SOURCE=graphql requires GITHUB_TOKEN. Using rest",
+      value: source,
+    });
+  }
+  return "rest";
+}
+
+// 非公開リポジトリを数えるか（認証ユーザーとしてリポジトリを読むため、いずれかのフォージのトークンが必要）
+// トークンの持ち主の確認はフォージごとに集計時に行う
+function parseIncludePrivateRepos(env: Env, errors: ConfigError[]): boolean {
+  if (!readBoolean(env, errors, "INCLUDE_PRIVATE_REPOS")) return false;
+  if (env.GITHUB_TOKEN || env.GITLAB_TOKEN || env.GITEA_TOKEN) return true;
+
+  errors.push({
+    key: "INCLUDE_PRIVATE_REPOS",
+    code: "invalid_value",
+    message:
+      "INCLUDE_PRIVATE_REPOS requires GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN. Using false",
+    value: env.INCLUDE_PRIVATE_REPOS,
+  });
+  return false;
+}
+
+// 通知先の解析
+// 形式: "slack:https://...;discord:https://...;https://..."（種類を省略するとwebhook）
+function parseNotifyTargets(
+  targets: string | undefined,
+  errors: ConfigError[],
+): NotifyTarget[] {
+  if (!targets) return [];
+
+  return targets.split(";")
+    .map((target) => target.trim())
+    .filter((target) => target.length > 0)
+    .flatMap((target): NotifyTarget[] => {
+      const match = target.match(/^([a-z]+):(?!\/\/)(.+)$/);
+      const type = match ? match[1] : "webhook";
+      const url = (match ? match[2] : target).trim();
+      const isValidType = (
+        VALID_NOTIFY_TARGET_TYPES as readonly string[]
+      ).includes(type);
+
+      let isValidUrl = false;
+      try {
+        const { protocol } = new URL(url);
+        isValidUrl = protocol === "https:" || protocol === "http:";
+      } catch {
+        // 下でエラーとして記録
+      }
+
+      if (!isValidType || !isValidUrl) {
+        // URLにはシークレットが含まれるため値は記録しない
+        errors.push({
+          key: "NOTIFY_TARGETS",
+          code: "invalid_value",
+          message: `Invalid notification target in NOTIFY_TARGETS. ` +
+            `Use "${VALID_NOTIFY_TARGET_TYPES.join("|")}:https://..."`,
+        });
+        return [];
+      }
+
+      return [{ type: type as NotifyTarget["type"], url }];
+    });
+}
+
+// 通知する変化の解析
+// 形式: "healthy->inactive,*->inactive"（未設定ならすべての変化を通知）
+function parseNotifyTransitions(
+  transitions: string | undefined,
+  errors: ConfigError[],
+): NotifyRule[] {
+  if (!transitions) return [{ from: "*", to: "*" }];
+
+  const statuses: Array<HealthStatus | "*"> = [
+    "healthy",
+    "moderate",
+    "inactive",
+    "*",
+  ];
+  const isStatus = (value: string): value is HealthStatus | "*" =>
+    (statuses as string[]).includes(value);
+
+  return transitions.split(",")
+    .map((transition) => transition.trim())
+    .filter((transition) => transition.length > 0)
+    .flatMap((transition): NotifyRule[] => {
+      const [from, to, ...rest] = transition.split("->")
+        .map((status) => status.trim());
+      if (rest.length > 0 || !isStatus(from) || !to || !isStatus(to)) {
+        errors.push({
+          key: "NOTIFY_TRANSITIONS",
+          code: "invalid_value",
+          message: `Invalid transition "${transition}" in NOTIFY_TRANSITIONS`,
+          value: transition,
+        });
+        return [];
+      }
+      return [{ from, to }];
+    });
+}
+
+// メールアドレスの伏せ字化（先頭1文字とドメインのみ残す）
+function redactEmail(email: string): string {
+  const [local, domain] = email.split("@");
+  return `${local.slice(0, 1)}***@${domain}`;
+}
+
+// 表示用に秘匿情報を伏せた設定値
+export function redactConfig(config: Config) {
+  return {
+    ...config,
+    githubToken: config.githubToken ? REDACTED : null,
+    webhookSecret: config.webhookSecret ? REDACTED : null,
+    adminToken: config.adminToken ? REDACTED : null,
+    notify: {
+      ...config.notify,
+      targets: config.notify.targets.map((target) => ({
+        type: target.type,
+        url: REDACTED,
+      })),
+    },
+    forges: config.forges.map((forge) => ({
+      ...forge,
+      token: forge.token ? REDACTED : null,
+    })),
+    commitFilter: {
+      ...config.commitFilter,
+      authorEmails: Object.fromEntries(
+        Object.entries(config.commitFilter.authorEmails).map((
+          [username, emails],
+        ) => [username, emails.map(redactEmail)]),
+      ),
+    },
+  };
+}
+
+// トークン確認結果のキー（トークンのハッシュを含め、変更されたら確認し直す）
+async function getTokenCheckKey(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token),
+  );
+  const hash = [...new Uint8Array(digest).slice(0, 8)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `github-token-check:${hash}`;
+}
+
+// GitHubトークンの確認（結果は短時間キャッシュする）
+export async function getTokenCheck(
+  env: Env,
+  config: Config,
+): Promise<TokenCheck> {
+  if (!config.githubToken) {
+    return { configured: false, checkedAt: new Date().toISOString() };
+  }
+
+  const key = await getTokenCheckKey(config.githubToken);
+  const cached = await env.AM_I_GENKI_CACHE.get(key, "json") as
+    | TokenCheck
+    | null;
+  if (cached) return cached;
+
+  const check = await checkGithubToken(config);
+  await env.AM_I_GENKI_CACHE.put(key, JSON.stringify(check), {
+    expirationTtl: TOKEN_CHECK_TTL,
+  });
+  return check;
+}
@@ -0,0 +1,149 @@
+import type {
+  CommitCountResult,
+  Config,
+  ForgeAccount,
+  ForgeProvider,
+  ForgeType,
+  RepoCount,
+  RepoCursors,
+  RequestBudget,
+} from "./types";
+import { countCommits } from "./github";
+import { countGitLabCommits } from "./gitlab";
+import { countGiteaCommits } from "./gitea";
+import { mergeDailyCommits } from "./utils";
+
+// フォージの種類ごとのコミット数の集計
+// 検索API・増分集計・Webhookに対応しているのはGitHubのみ
+const providers: Record<ForgeType, ForgeProvider> = {
+  github: {
+    countCommits: (account, monitoringDays, config, { budget, cursors }) =>
+      countCommits(account.username, monitoringDays, config, budget, cursors),
+  },
+  gitlab: { countCommits: countGitLabCommits },
+  gitea: { countCommits: countGiteaCommits },
+};
+
+// 集計対象のアカウントを取得（GitHubと、ユーザー名の対応が設定されたフォージ）
+export function getForgeAccounts(
+  username: string,
+  config: Config,
+): ForgeAccount[] {
+  const accounts: ForgeAccount[] = [{
+    type: "github",
+    baseUrl: config.githubApiUrl,
+    username,
+    githubUsername: username,
+    token: config.githubToken,
+  }];
+
+  for (const forge of config.forges) {
+    const forgeUsername = forge.usernames[username.toLowerCase()];
+    if (!forgeUsername) continue;
+    accounts.push({
+      type: forge.type,
+      baseUrl: forge.baseUrl,
+      username: forgeUsername,
+      githubUsername: username,
+      token: forge.token,
+    });
+  }
+
+  return accounts;
+}
+
+// リポジトリごとのコミット数を合算
+// コミットのあったリポジトリ数を所有・組織別に数え、非公開リポジトリは名前を残さず合計のみ記録する
+export function sumRepoCounts(
+  repos: RepoCount[],
+  truncated: boolean = false,
+): CommitCountResult {
+  const total: CommitCountResult = {
+    commits: 0,
+    sources: { owned: 0, org: 0 },
+    repos: {},
+    privateCommits: 0,
+    daily: {},
+    truncated,
+  };
+
+  for (const repo of repos) {
+    if (repo.commits === 0) continue;
+    total.commits += repo.commits;
+    if (repo.isOwned) {
+      total.sources.owned++;
+    } else {
+      total.sources.org++;
+    }
+    if (repo.isPrivate) {
+      total.privateCommits += repo.commits;
+    } else {
+      total.repos[repo.name] = repo.commits;
+    }
+    total.daily = mergeDailyCommits(total.daily, repo.days);
+    if (repo.truncated) total.truncated = true;
+  }
+
+  return total;
+}
+
+// 全てのフォージのコミット数を合算
+// GitHub以外のフォージの取得に失敗した場合は、取得できた分だけ返してpartialにする
+export async function countAllCommits(
+  username: string,
+  monitoringDays: number,
+  config: Config,
+  budget?: RequestBudget,
+  cursors?: RepoCursors,
+): Promise<CommitCountResult> {
+  const results = await Promise.all(
+    getForgeAccounts(username, config).map(async (account) => {
+      const provider = providers[account.type];
+      const options = { budget, cursors };
+      if (account.type === "github") {
+        return provider.countCommits(account, monitoringDays, config, options);
+      }
+
+      try {
+        return await provider.countCommits(
+          account,
+          monitoringDays,
+          config,
+          options,
+        );
+      } catch (error) {
+        console.error(
+          `Error counting ${account.type} commits for ${account.username} on ${account.baseUrl}:`,
+          error,
+        );
+        return null;
+      }
+    }),
+  );
+
+  const total: CommitCountResult = {
+    commits: 0,
+    sources: { owned: 0, org: 0 },
+    repos: {},
+    privateCommits: 0,
+    daily: {},
+    truncated: false,
+  };
+
+  for (const result of results) {
+    if (!result) {
+      total.partial = true;
+      continue;
+    }
+    total.commits += result.commits;
+    total.sources.owned += result.sources.owned;
+    total.sources.org += result.sources.org;
+    total.repos = { ...total.repos, ...result.repos };
+    total.privateCommits += result.privateCommits;
+    total.daily = mergeDailyCommits(total.daily, result.daily);
+    if (result.truncated) total.truncated = true;
+    if (result.partial) total.partial = true;
+  }
+
+  return total;
+}
@@ -0,0 +1,226 @@
+import type {
+  CommitAuthor,
+  CommitCountResult,
+  Config,
+  DailyCommits,
+  ForgeAccount,
+  GiteaCommit,
+  GiteaOrg,
+  GiteaRepo,
+  GiteaUser,
+  RepoCount,
+} from "./types";
+import { fetchAllPages, MAX_SCANNED_COMMITS } from "./github";
+import { sumRepoCounts } from "./forge";
+import {
+  fetchWithRetry,
+  getAuthorEmails,
+  getMonitoringSince,
+  isExcludedOrg,
+  isExcludedRepo,
+  isTargetCommit,
+  toDateString,
+} from "./utils";
+
+// ユーザーの所属組織の取得上限
+const MAX_ORGS = 100;
+
+// Gitea・Forgejo APIヘッダー
+export function getGiteaHeaders(token?: string): HeadersInit {
+  const headers: HeadersInit = {
+    "Accept": "application/json",
+    "User-Agent": "Am-I-Genki-Badge-Service",
+  };
+  if (token) {
+    headers["Authorization"] = `token ${token}`;
+  }
+  return headers;
+}
+
+// 非公開リポジトリを数えるか（トークンの持ち主が対象ユーザー本人の場合のみ）
+async function canReadPrivateRepos(
+  account: ForgeAccount,
+  config: Config,
+): Promise<boolean> {
+  if (!config.includePrivateRepos || !account.token) return false;
+
+  try {
+    const response = await fetchWithRetry(
+      `${account.baseUrl}/api/v1/user`,
+      { headers: getGiteaHeaders(account.token) },
+    );
+    if (!response.ok) return false;
+
+    const user = await response.json() as GiteaUser;
+    return user.login.toLowerCase() === account.username.toLowerCase();
+  } catch (error) {
+    console.error("Error fetching the authenticated Gitea user:", error);
+    return false;
+  }
+}
+
+// ユーザー本人の作者情報か判定（ユーザー名・公開メールアドレス・登録済みのメールアドレス）
+function getGiteaAuthorMatcher(
+  user: GiteaUser,
+  account: ForgeAccount,
+  config: Config,
+): (author: CommitAuthor) => boolean {
+  const emails = [...getAuthorEmails(account.githubUsername, config)];
+  if (user.email) emails.push(user.email.toLowerCase());
+
+  return (author) =>
+    author.login?.toLowerCase() === user.login.toLowerCase() ||
+    (!!author.email && emails.includes(author.email.toLowerCase()));
+}
+
+// Gitea・Forgejoのコミット数を取得
+export async function countGiteaCommits(
+  account: ForgeAccount,
+  monitoringDays: number,
+  config: Config,
+): Promise<CommitCountResult> {
+  const apiUrl = `${account.baseUrl}/api/v1`;
+  const headers = getGiteaHeaders(account.token);
+  const host = new URL(account.baseUrl).host;
+  const since = getMonitoringSince(monitoringDays, config.timezone);
+
+  const userResponse = await fetchWithRetry(
+    `${apiUrl}/users/${encodeURIComponent(account.username)}`,
+    { headers },
+  );
+  if (!userResponse.ok) {
+    throw new Error(
+      `Failed to fetch Gitea user ${account.username}: ${userResponse.status}`,
+    );
+  }
+  const user = await userResponse.json() as GiteaUser;
+  const isAuthor = getGiteaAuthorMatcher(user, account, config);
+  const includePrivate = await canReadPrivateRepos(account, config);
+
+  // 監視期間内に更新されたリポジトリを取得（所有リポジトリはmaxRepos、組織ごとにはmaxReposPerOrgまで）
+  const fetchRepos = (url: string, owner: string, maxItems: number) =>
+    fetchAllPages<GiteaRepo>(url, {
+      headers,
+      maxItems,
+      filter: (repo) =>
+        new Date(repo.updated_at) >= since &&
+        (includePrivate || !repo.private) &&
+        !isExcludedRepo(owner, repo.name, config),
+    });
+
+  const ownedResult = await fetchRepos(
+    `${apiUrl}/users/${user.login}/repos?limit=50`,
+    user.login,
+    config.maxRepos,
+  );
+  if (!ownedResult.ok) {
+    throw new Error(`Failed to fetch Gitea repos for ${account.username}`);
+  }
+  let truncated = ownedResult.truncated;
+  const candidates = ownedResult.items.map((repo) => ({
+    repo,
+    isOwned: true,
+  }));
+
+  if (config.includeOrgRepos) {
+    const orgsResult = await fetchAllPages<GiteaOrg>(
+      `${apiUrl}/users/${user.login}/orgs?limit=50`,
+      {
+        headers,
+        maxItems: MAX_ORGS,
+        filter: (org) => !isExcludedOrg(org.username, config),
+      },
+    );
+    if (orgsResult.truncated) truncated = true;
+
+    const orgReposResults = await Promise.all(
+      orgsResult.items.map((org) =>
+        fetchRepos(
+          `${apiUrl}/orgs/${org.username}/repos?limit=50`,
+          org.username,
+          config.maxReposPerOrg,
+        )
+      ),
+    );
+    for (const result of orgReposResults) {
+      if (!result.ok) continue;
+      if (result.truncated) truncated = true;
+      candidates.push(
+        ...result.items.map((repo) => ({ repo, isOwned: false })),
+      );
+    }
+  }
+
+  // 更新日時の新しい順に上限まで集計
+  candidates.sort((a, b) =>
+    new Date(b.repo.updated_at).getTime() -
+    new Date(a.repo.updated_at).getTime()
+  );
+  if (candidates.length > config.maxRepos) {
+    candidates.length = config.maxRepos;
+    truncated = true;
+  }
+
+  const countRepoCommits = async (
+    { repo, isOwned }: { repo: GiteaRepo; isOwned: boolean },
+  ): Promise<RepoCount | null> => {
+    const name = `${repo.owner.login}/${repo.name}`;
+    try {
+      const result = await fetchAllPages<GiteaCommit>(
+        `${apiUrl}/repos/${name}/commits?since=${since.toISOString()}&limit=50&stat=false&verification=false&files=false`,
+        {
+          headers,
+          maxItems: config.maxCommitsPerRepo,
+          maxScanned: MAX_SCANNED_COMMITS,
+          filter: (commit) =>
+            isTargetCommit(
+              {
+                login: commit.author?.login,
+                name: commit.commit.author.name,
+                email: commit.commit.author.email,
+                message: commit.commit.message,
+                isMerge: commit.parents.length >= 2,
+              },
+              isAuthor,
+              config,
+            ),
+        },
+      );
+      // 空のリポジトリはエラーになるためスキップ
+      if (!result.ok || result.items.length === 0) return null;
+
+      const days: DailyCommits = {};
+      for (const commit of result.items) {
+        const date = toDateString(
+          new Date(commit.commit.committer.date),
+          config.timezone,
+        );
+        days[date] = (days[date] ?? 0) + 1;
+      }
+
+      return {
+        name: `${host}/${name}`,
+        isOwned,
+        isPrivate: repo.private,
+        commits: result.items.length,
+        days,
+        truncated: result.truncated,
+      };
+    } catch (error) {
+      console.error(`Error processing Gitea repo ${name}:`, error);
+      return null;
+    }
+  };
+
+  // バッチ処理でコミット数を確認
+  const counts: RepoCount[] = [];
+  const batchSize = 5;
+  for (let i = 0; i < candidates.length; i += batchSize) {
+    const results = await Promise.all(
+      candidates.slice(i, i + batchSize).map(countRepoCommits),
+    );
+    counts.push(...results.filter((result) => result !== null));
+  }
+
+  return sumRepoCounts(counts, truncated);
+}
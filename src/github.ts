@@ -1,6 +1,41 @@
-import type { Config, GitHubCommit, GitHubRepo, GitHubOrg } from "./types";
-import { fetchWithRetry } from "./utils";
-import { isBotAccount } from "./utils";
+import type {
+  ActivityBreakdown,
+  CommitCountResult,
+  Config,
+  DailyCommits,
+  GitHubCommit,
+  GitHubContributionsResponse,
+  GitHubOrg,
+  GitHubRepo,
+  GitHubSearchResponse,
+  GitHubUser,
+  RepoCount,
+  RepoCursor,
+  RepoCursors,
+  RequestBudget,
+  TokenCheck,
+} from "./types";
+import {
+  fetchWithRetry,
+  getAuthorEmails,
+  getMonitoringSince,
+  isExcludedOrg,
+  isExcludedRepo,
+  isUserCommit,
+  mergeDailyCommits,
+  toDateString,
+} from "./utils";
+import { hasBudget } from "./ratelimit";
+import { sumRepoCounts } from "./forge";
+
+// ユーザーの所属組織の取得上限
+const MAX_ORGS = 100;
+
+// チームメンバーの取得上限
+const MAX_TEAM_MEMBERS = 100;
+
+// 作者で絞り込まずにコミットを取得する場合の走査件数の上限（他のフォージでも使用）
+export const MAX_SCANNED_COMMITS = 5000;
 
 // GitHub APIヘッダー
 export function getGithubHeaders(token?: string): HeadersInit {
@@ -14,88 +49,505 @@ export function getGithubHeaders(token?: string): HeadersInit {
   return headers;
 }
 
-// 単一リポジトリのコミット数を取得
-export async function getRepoCommits(
+// GraphQL APIのURL（GitHub Enterpriseは /api/v3 に対して /api/graphql）
+export function getGithubGraphqlUrl(apiUrl: string): string {
+  return apiUrl.endsWith("/api/v3")
+    ? apiUrl.replace(/\/api\/v3$/, "/api/graphql")
+    : `${apiUrl}/graphql`;
+}
+
+// Linkヘッダーから次ページのURLを取得
+export function getNextPageUrl(response: Response): string | null {
+  const link = response.headers.get("link");
+  const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1] : null;
+}
+
+// Linkヘッダーをたどって一覧を取得
+// filterを通過した件数がmaxItemsを超える場合・走査した件数がmaxScannedを超える場合はtruncated、
+// stopWhenに一致した時点で終了
+export async function fetchAllPages<T>(
+  url: string,
+  options: {
+    token?: string;
+    headers?: HeadersInit; // GitHub以外のAPIの場合に指定
+    budget?: RequestBudget;
+    maxItems: number;
+    maxScanned?: number;
+    filter?: (item: T) => boolean;
+    stopWhen?: (item: T) => boolean;
+  },
+): Promise<{ ok: boolean; items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  let nextUrl: string | null = url;
+  let isFirstPage = true;
+  let scanned = 0;
+
+  while (nextUrl) {
+    const response = await fetchWithRetry(
+      nextUrl,
+      { headers: options.headers ?? getGithubHeaders(options.token) },
+      3,
+      500,
+      options.budget,
+    );
+
+    if (!response.ok) {
+      // 2ページ目以降の失敗は取得できた分だけ返す
+      return { ok: !isFirstPage, items, truncated: !isFirstPage };
+    }
+    isFirstPage = false;
+
+    const page = await response.json() as T[];
+    for (const item of page) {
+      if (options.stopWhen?.(item)) {
+        return { ok: true, items, truncated: false };
+      }
+      if (options.maxScanned !== undefined && scanned >= options.maxScanned) {
+        return { ok: true, items, truncated: true };
+      }
+      scanned++;
+      if (options.filter && !options.filter(item)) continue;
+      if (items.length >= options.maxItems) {
+        return { ok: true, items, truncated: true };
+      }
+      items.push(item);
+    }
+
+    nextUrl = getNextPageUrl(response);
+  }
+
+  return { ok: true, items, truncated: false };
+}
+
+// Organizationチームのメンバーを取得（read:org権限のトークンが必要）
+export async function getOrgTeamMembers(
+  org: string,
+  slug: string,
+  config: Config,
+): Promise<string[]> {
+  const result = await fetchAllPages<GitHubUser>(
+    `${config.githubApiUrl}/orgs/${org}/teams/${slug}/members?per_page=100`,
+    { token: config.githubToken, maxItems: MAX_TEAM_MEMBERS },
+  );
+
+  if (!result.ok) {
+    throw new Error(`Failed to fetch members of ${org}/${slug}`);
+  }
+
+  return result.items.map((member) => member.login);
+}
+
+// GitHubトークンのスコープと組織情報へのアクセス可否を確認
+export async function checkGithubToken(config: Config): Promise<TokenCheck> {
+  const checkedAt = new Date().toISOString();
+  const headers = getGithubHeaders(config.githubToken);
+
+  const userResponse = await fetchWithRetry(
+    `${config.githubApiUrl}/user`,
+    { headers },
+    1,
+  );
+  if (!userResponse.ok) {
+    return { configured: true, valid: false, checkedAt };
+  }
+
+  const user = await userResponse.json() as GitHubUser;
+  const scopes = userResponse.headers.get("x-oauth-scopes");
+
+  const orgsResponse = await fetchWithRetry(
+    `${config.githubApiUrl}/user/orgs?per_page=${MAX_ORGS}`,
+    { headers },
+    1,
+  );
+  const orgs = orgsResponse.ok
+    ? (await orgsResponse.json() as GitHubOrg[]).length
+    : undefined;
+
+  return {
+    configured: true,
+    valid: true,
+    login: user.login,
+    scopes: scopes === null
+      ? null
+      : scopes.split(",").map((scope) => scope.trim()).filter(Boolean),
+    orgAccess: { ok: orgsResponse.ok, status: orgsResponse.status, orgs },
+    checkedAt,
+  };
+}
+
+// 非公開リポジトリを読めるか（トークンの持ち主が対象ユーザー本人の場合のみ）
+export async function canReadPrivateRepos(
   username: string,
-  repoOwner: string,
-  repoName: string,
-  since: Date,
-  token?: string,
-): Promise<number> {
+  config: Config,
+  budget?: RequestBudget,
+): Promise<boolean> {
+  if (!config.includePrivateRepos || !config.githubToken) return false;
+
   try {
-    const commitsResponse = await fetchWithRetry(
-      `https://api.github.com/repos/${repoOwner}/${repoName}/commits?author=${username}&since=${since.toISOString()}&per_page=100`,
-      { headers: getGithubHeaders(token) },
+    const response = await fetchWithRetry(
+      `${config.githubApiUrl}/user`,
+      { headers: getGithubHeaders(config.githubToken) },
       3,
       500,
+      budget,
     );
+    if (!response.ok) return false;
 
-    if (commitsResponse.ok) {
-      const commits = await commitsResponse.json() as GitHubCommit[];
-
-      // Bot・マージコミットを除外してユーザー本人のコミットのみカウント
-      const userCommits = commits.filter((commit) => {
-        const authorLogin = commit.author?.login;
-        const authorName = commit.commit.author.name;
-        const authorEmail = commit.commit.author.email;
+    const user = await response.json() as GitHubUser;
+    return user.login.toLowerCase() === username.toLowerCase();
+  } catch (error) {
+    console.error("Error fetching the authenticated user:", error);
+    return false;
+  }
+}
 
-        // マージコミット（親が2つ以上）を除外
-        const isMergeCommit = commit.parents.length >= 2;
+// 単一リポジトリのユーザー本人のコミット一覧を取得
+// 共著のコミットを数える場合は作者で絞り込まずに取得し、
+// それ以外はユーザー名と登録済みのメールアドレスごとに取得してまとめる
+export async function getRepoCommitList(
+  username: string,
+  repoOwner: string,
+  repoName: string,
+  since: Date,
+  config: Config,
+  budget?: RequestBudget,
+): Promise<{ ok: boolean; commits: GitHubCommit[]; truncated: boolean }> {
+  const authors = config.commitFilter.countCoAuthored
+    ? [null]
+    : [username, ...getAuthorEmails(username, config)];
 
-        return !isBotAccount(authorLogin, authorName, authorEmail) &&
-          !isMergeCommit &&
-          authorLogin === username;
+  try {
+    const results = await Promise.all(authors.map((author) => {
+      const params = new URLSearchParams({
+        since: since.toISOString(),
+        per_page: "100",
       });
+      if (author) params.set("author", author);
+
+      return fetchAllPages<GitHubCommit>(
+        `${config.githubApiUrl}/repos/${repoOwner}/${repoName}/commits?${params}`,
+        {
+          token: config.githubToken,
+          budget,
+          maxItems: config.maxCommitsPerRepo,
+          maxScanned: author ? undefined : MAX_SCANNED_COMMITS,
+          // Bot・マージコミット（親が2つ以上）を判定条件に従って除外し、ユーザー本人のコミットのみカウント
+          filter: (commit) =>
+            isUserCommit(username, {
+              login: commit.author?.login,
+              name: commit.commit.author.name,
+              email: commit.commit.author.email,
+              message: commit.commit.message,
+              isMerge: commit.parents.length >= 2,
+            }, config),
+        },
+      );
+    }));
 
-      return userCommits.length;
+    // SHAで重複を除き、コミット日時の降順に並べる
+    const commits = new Map<string, GitHubCommit>();
+    for (const result of results) {
+      for (const commit of result.items) commits.set(commit.sha, commit);
     }
+
+    return {
+      ok: results.every((result) => result.ok),
+      commits: [...commits.values()].sort((a, b) =>
+        b.commit.committer.date.localeCompare(a.commit.committer.date)
+      ),
+      truncated: results.some((result) => result.truncated),
+    };
   } catch (error) {
     console.error(`Error fetching commits for ${repoName}:`, error);
   }
 
-  return 0;
+  return { ok: false, commits: [], truncated: false };
+}
+
+// 単一リポジトリのコミット数（日ごとの内訳付き）
+interface RepoCommitCount {
+  commits: number;
+  days: DailyCommits;
+  truncated: boolean;
+}
+
+// 単一リポジトリのコミット数を取得
+export async function getRepoCommits(
+  username: string,
+  repoOwner: string,
+  repoName: string,
+  since: Date,
+  config: Config,
+  budget?: RequestBudget,
+): Promise<RepoCommitCount> {
+  const result = await getRepoCommitList(
+    username,
+    repoOwner,
+    repoName,
+    since,
+    config,
+    budget,
+  );
+
+  const days: DailyCommits = {};
+  for (const commit of result.commits) {
+    const date = toDateString(
+      new Date(commit.commit.committer.date),
+      config.timezone,
+    );
+    days[date] = (days[date] ?? 0) + 1;
+  }
+
+  return {
+    commits: result.commits.length,
+    days,
+    truncated: result.truncated,
+  };
+}
+
+// 増分集計の状態のキー
+// 非公開リポジトリは名前をKVに残さないようにハッシュ化する
+export async function getRepoCursorKey(
+  repoOwner: string,
+  repoName: string,
+  isPrivate = false,
+): Promise<string> {
+  const key = `${repoOwner}/${repoName}`;
+  if (!isPrivate) return key;
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key.toLowerCase()),
+  );
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `private:${hex}`;
+}
+
+// 増分集計の状態を記録したときのコミットの判定条件
+function getCursorFilterKey(username: string, config: Config): string {
+  const filter = config.commitFilter;
+  return JSON.stringify([
+    filter.botPatterns,
+    getAuthorEmails(username, config),
+    filter.countCoAuthored,
+    filter.countMergeCommits,
+  ]);
+}
+
+// 増分集計の状態から監視期間内のコミット数を数える
+function countCursorCommits(
+  cursor: RepoCursor | undefined,
+  sinceDate: string,
+): RepoCommitCount {
+  const days: DailyCommits = {};
+  for (const [date, shas] of Object.entries(cursor?.days ?? {})) {
+    if (date >= sinceDate && shas.length > 0) days[date] = shas.length;
+  }
+
+  return {
+    commits: Object.values(days).reduce((total, count) => total + count, 0),
+    days,
+    truncated: !!cursor?.truncatedUntil,
+  };
+}
+
+// 期間外の記録と、監視期間中に更新のないリポジトリの状態を削除
+export function pruneRepoCursors(
+  cursors: RepoCursors,
+  since: Date,
+  timezone: string,
+) {
+  const sinceDate = toDateString(since, timezone);
+
+  for (const [key, cursor] of Object.entries(cursors)) {
+    for (const date of Object.keys(cursor.days)) {
+      if (date < sinceDate) delete cursor.days[date];
+    }
+    if (
+      Object.keys(cursor.days).length === 0 &&
+      new Date(cursor.checkedAt) < since
+    ) {
+      delete cursors[key];
+    }
+  }
+}
+
+// 単一リポジトリのコミット数を増分で取得
+// cursorsがある場合は前回の取得以降にpushされたリポジトリのみ取得し、期間外の日を削除する
+export async function countRepoCommits(
+  username: string,
+  repoOwner: string,
+  repo: GitHubRepo,
+  since: Date,
+  config: Config,
+  budget?: RequestBudget,
+  cursors?: RepoCursors,
+): Promise<RepoCommitCount> {
+  if (!cursors) {
+    return getRepoCommits(
+      username,
+      repoOwner,
+      repo.name,
+      since,
+      config,
+      budget,
+    );
+  }
+
+  const key = await getRepoCursorKey(repoOwner, repo.name, repo.private);
+  const sinceDate = toDateString(since, config.timezone);
+  let cursor: RepoCursor | undefined = cursors[key];
+
+  // 監視期間の先頭まで記録されていない場合・判定条件が変わった場合は取り直す
+  const filterKey = getCursorFilterKey(username, config);
+  if (
+    cursor &&
+    (new Date(cursor.coveredFrom) > since || cursor.filter !== filterKey)
+  ) {
+    cursor = undefined;
+  }
+
+  if (cursor) {
+    // 期間外の日を削除
+    for (const date of Object.keys(cursor.days)) {
+      if (date < sinceDate) delete cursor.days[date];
+    }
+    if (cursor.truncatedUntil && cursor.truncatedUntil < sinceDate) {
+      delete cursor.truncatedUntil;
+    }
+
+    // 前回の取得以降にpushされていなければAPIを呼ばない
+    if (
+      repo.pushed_at && new Date(repo.pushed_at) <= new Date(cursor.checkedAt)
+    ) {
+      return countCursorCommits(cursor, sinceDate);
+    }
+  }
+
+  // マージで取り込まれたコミットは作成日時が古いままのため、pushされていれば監視期間の先頭から取り直す
+  // （記録済みのコミットはSHAで除外する）
+  const checkedAt = new Date();
+  const result = await getRepoCommitList(
+    username,
+    repoOwner,
+    repo.name,
+    since,
+    config,
+    budget,
+  );
+
+  // 取得に失敗した場合は記録済みの値を使う
+  if (!result.ok) {
+    return countCursorCommits(cursor, sinceDate);
+  }
+
+  const next: RepoCursor = cursor ?? {
+    checkedAt: checkedAt.toISOString(),
+    coveredFrom: since.toISOString(),
+    days: {},
+    filter: filterKey,
+  };
+  next.checkedAt = checkedAt.toISOString();
+
+  // SHA単位で記録するため、重複して取得したコミットは二重にカウントされない
+  // Webhookで別の日付（pushイベントのtimestamp）に記録済みのコミットは、APIのコミット日時の日に移す
+  const recorded = new Map(
+    Object.entries(next.days).flatMap(([date, shas]) =>
+      shas.map((sha) => [sha, date] as const)
+    ),
+  );
+  for (const commit of result.commits) {
+    const date = toDateString(
+      new Date(commit.commit.committer.date),
+      config.timezone,
+    );
+    if (date < sinceDate) continue;
+
+    const recordedDate = recorded.get(commit.sha);
+    if (recordedDate === date) continue;
+    if (recordedDate !== undefined) {
+      next.days[recordedDate] = next.days[recordedDate]
+        .filter((sha) => sha !== commit.sha);
+      if (next.days[recordedDate].length === 0) delete next.days[recordedDate];
+    }
+
+    next.days[date] = [...(next.days[date] ?? []), commit.sha];
+    recorded.set(commit.sha, date);
+  }
+
+  // 上限で打ち切った場合、取得できた最も古い日以前に取りこぼしがある
+  if (result.truncated) {
+    const oldest = result.commits[result.commits.length - 1];
+    next.truncatedUntil = oldest
+      ? toDateString(new Date(oldest.commit.committer.date), config.timezone)
+      : sinceDate;
+  } else {
+    delete next.truncatedUntil;
+  }
+
+  cursors[key] = next;
+
+  return countCursorCommits(next, sinceDate);
 }
 
 // 組織リポジトリのコミット数を取得
+// includePrivateの場合は認証ユーザーの所属組織（非公開のメンバーシップを含む）の全リポジトリを対象にする
 export async function getOrgRepoCommits(
   username: string,
   config: Config,
   since: Date,
   maxRepos: number,
-): Promise<{ commits: number; repos: number }> {
-  let totalOrgCommits = 0;
-  let processedOrgRepos = 0;
+  budget?: RequestBudget,
+  cursors?: RepoCursors,
+  includePrivate: boolean = false,
+): Promise<{ repos: RepoCount[]; truncated: boolean }> {
+  const counts: RepoCount[] = [];
+  let truncated = false;
 
   try {
     // ユーザーが所属する組織を取得
-    const orgsResponse = await fetchWithRetry(
-      `https://api.github.com/users/${username}/orgs`,
-      { headers: getGithubHeaders(config.githubToken) },
+    const orgsResult = await fetchAllPages<GitHubOrg>(
+      includePrivate
+        ? `${config.githubApiUrl}/user/orgs?per_page=100`
+        : `${config.githubApiUrl}/users/${username}/orgs?per_page=100`,
+      {
+        token: config.githubToken,
+        budget,
+        maxItems: MAX_ORGS,
+        // 除外組織をフィルタリング
+        filter: (org) => !isExcludedOrg(org.login, config),
+      },
     );
 
-    if (!orgsResponse.ok) {
+    if (!orgsResult.ok) {
       console.error("Failed to fetch user organizations");
-      return { commits: 0, repos: 0 };
+      return { repos: [], truncated: false };
     }
+    truncated = orgsResult.truncated;
 
-    const orgs = await orgsResponse.json() as GitHubOrg[];
-
-    // 除外組織をフィルタリング
-    const filteredOrgs = orgs.filter((org) =>
-      !config.excludeOrgs.includes(org.login)
-    );
-
-    // 組織ごとのリポジトリを並列取得
-    const orgReposPromises = filteredOrgs.map(async (org) => {
+    // 組織ごとのリポジトリを並列取得（更新日時の降順なので監視期間外に達したら終了）
+    const orgReposPromises = orgsResult.items.map(async (org) => {
       try {
-        const orgReposResponse = await fetchWithRetry(
-          `https://api.github.com/orgs/${org.login}/repos?type=public&sort=updated&per_page=${config.maxReposPerOrg}`,
-          { headers: getGithubHeaders(config.githubToken) },
+        const result = await fetchAllPages<GitHubRepo>(
+          `${config.githubApiUrl}/orgs/${org.login}/repos?type=${
+            includePrivate ? "all" : "public"
+          }&sort=updated&per_page=${Math.min(config.maxReposPerOrg, 100)}`,
+          {
+            token: config.githubToken,
+            budget,
+            maxItems: config.maxReposPerOrg,
+            filter: (repo) =>
+              (includePrivate || !repo.private) &&
+              !isExcludedRepo(org.login, repo.name, config),
+            stopWhen: (repo) => new Date(repo.updated_at) < since,
+          },
         );
 
-        if (orgReposResponse.ok) {
-          const repos = await orgReposResponse.json() as GitHubRepo[];
-          return { org: org.login, repos };
+        if (result.ok) {
+          return { org: org.login, ...result };
         }
         return null;
       } catch (error) {
@@ -112,17 +564,15 @@ export async function getOrgRepoCommits(
     > = [];
 
     for (const result of orgReposResults) {
-      if (result && result.repos) {
-        for (const repo of result.repos) {
-          if (allOrgRepos.length >= maxRepos) break;
-
-          const repoUpdated = new Date(repo.updated_at);
-          if (
-            repoUpdated >= since && !config.excludeRepos.includes(repo.name)
-          ) {
-            allOrgRepos.push({ org: result.org, repo });
-          }
+      if (!result) continue;
+      if (result.truncated) truncated = true;
+
+      for (const repo of result.items) {
+        if (allOrgRepos.length >= maxRepos) {
+          truncated = true;
+          break;
         }
+        allOrgRepos.push({ org: result.org, repo });
       }
     }
 
@@ -130,30 +580,37 @@ export async function getOrgRepoCommits(
     const batchSize = config.githubToken ? 5 : 3;
 
     // バッチ処理でコミット数を確認
-    for (
-      let i = 0;
-      i < allOrgRepos.length && processedOrgRepos < maxRepos;
-      i += batchSize
-    ) {
+    for (let i = 0; i < allOrgRepos.length; i += batchSize) {
       const batch = allOrgRepos.slice(
         i,
         Math.min(i + batchSize, allOrgRepos.length),
       );
 
+      // 残りリクエスト数が少ない場合は打ち切る
+      if (budget && !hasBudget(budget, "core", batch.length)) {
+        console.warn("Rate limit budget is low. Skipping remaining org repos");
+        budget.limited = true;
+        break;
+      }
+
       const batchPromises = batch.map(async ({ org, repo }) => {
         try {
-          const commits = await getRepoCommits(
+          const result = await countRepoCommits(
             username,
             org,
-            repo.name,
+            repo,
             since,
-            config.githubToken,
+            config,
+            budget,
+            cursors,
           );
 
-          if (commits > 0) {
-            return { commits, org, repo: repo.name };
-          }
-          return null;
+          return {
+            ...result,
+            name: `${org}/${repo.name}`,
+            isOwned: false,
+            isPrivate: !!repo.private,
+          };
         } catch (error) {
           console.error(`Error processing ${org}/${repo.name}:`, error);
           return null;
@@ -161,16 +618,10 @@ export async function getOrgRepoCommits(
       });
 
       const results = await Promise.all(batchPromises);
-
-      for (const result of results) {
-        if (result && processedOrgRepos < maxRepos) {
-          totalOrgCommits += result.commits;
-          processedOrgRepos++;
-        }
-      }
+      counts.push(...results.filter((result) => result !== null));
 
       // バッチ間の小さな遅延
-      if (i + batchSize < allOrgRepos.length && processedOrgRepos < maxRepos) {
+      if (i + batchSize < allOrgRepos.length) {
         await new Promise((resolve) =>
           setTimeout(resolve, config.githubToken ? 100 : 200)
         );
@@ -180,7 +631,7 @@ export async function getOrgRepoCommits(
     console.error("Error fetching organization repositories:", error);
   }
 
-  return { commits: totalOrgCommits, repos: processedOrgRepos };
+  return { repos: counts, truncated };
 }
 
 // コミット数の取得（組織リポジトリ対応版）
@@ -188,33 +639,39 @@ export async function getCommitCount(
   username: string,
   monitoringDays: number,
   config: Config,
-): Promise<{ commits: number; sources: { owned: number; org: number } }> {
-  // 指定日数前の日付を計算
-  const since = new Date();
-  since.setDate(since.getDate() - monitoringDays);
-
-  let totalCommits = 0;
-  let processedRepos = 0;
-  const repoSources = { owned: 0, org: 0 };
-
-  // ユーザーの所有リポジトリを取得・処理
-  const ownedRepos = await fetchWithRetry(
-    `https://api.github.com/users/${username}/repos?type=owner&sort=updated&per_page=30`,
-    { headers: getGithubHeaders(config.githubToken) },
+  budget?: RequestBudget,
+  cursors?: RepoCursors,
+): Promise<CommitCountResult> {
+  // 監視期間の開始日時を計算（設定タイムゾーンの暦日基準）
+  const since = getMonitoringSince(monitoringDays, config.timezone);
+
+  const counts: RepoCount[] = [];
+  let scannedRepos = 0;
+  let truncated = false;
+
+  // 非公開リポジトリを含める場合は認証ユーザーとしてリポジトリを取得
+  const includePrivate = await canReadPrivateRepos(username, config, budget);
+
+  // ユーザーの所有リポジトリを取得（更新日時の降順なので監視期間外に達したら終了）
+  const ownedRepos = await fetchAllPages<GitHubRepo>(
+    includePrivate
+      ? `${config.githubApiUrl}/user/repos?affiliation=owner&sort=updated&per_page=100`
+      : `${config.githubApiUrl}/users/${username}/repos?type=owner&sort=updated&per_page=100`,
+    {
+      token: config.githubToken,
+      budget,
+      maxItems: config.maxRepos,
+      filter: (repo) =>
+        (includePrivate || !repo.private) &&
+        !isExcludedRepo(username, repo.name, config),
+      stopWhen: (repo) => new Date(repo.updated_at) < since,
+    },
   );
 
   if (ownedRepos.ok) {
-    const repos = await ownedRepos.json() as GitHubRepo[];
-
-    // 処理対象のリポジトリをフィルタリング
-    const reposToProcess = repos
-      .filter((repo) => {
-        if (processedRepos >= 20) return false;
-        if (config.excludeRepos.includes(repo.name)) return false;
-        const repoUpdated = new Date(repo.updated_at);
-        return repoUpdated >= since;
-      })
-      .slice(0, 20);
+    const reposToProcess = ownedRepos.items;
+    scannedRepos = reposToProcess.length;
+    truncated = ownedRepos.truncated;
 
     // バッチサイズ（同時実行数）
     const batchSize = config.githubToken ? 5 : 3;
@@ -223,20 +680,31 @@ export async function getCommitCount(
     for (let i = 0; i < reposToProcess.length; i += batchSize) {
       const batch = reposToProcess.slice(i, i + batchSize);
 
+      // 残りリクエスト数が少ない場合は打ち切る
+      if (budget && !hasBudget(budget, "core", batch.length)) {
+        console.warn("Rate limit budget is low. Skipping remaining repos");
+        budget.limited = true;
+        break;
+      }
+
       const batchPromises = batch.map(async (repo) => {
         try {
-          const commits = await getRepoCommits(
+          const result = await countRepoCommits(
             username,
             username,
-            repo.name,
+            repo,
             since,
-            config.githubToken,
+            config,
+            budget,
+            cursors,
           );
 
-          if (commits > 0) {
-            return { commits, isOwned: true };
-          }
-          return null;
+          return {
+            ...result,
+            name: `${username}/${repo.name}`,
+            isOwned: true,
+            isPrivate: !!repo.private,
+          };
         } catch (error) {
           console.error(`Error processing repo ${repo.name}:`, error);
           return null;
@@ -244,14 +712,7 @@ export async function getCommitCount(
       });
 
       const results = await Promise.all(batchPromises);
-
-      for (const result of results) {
-        if (result) {
-          totalCommits += result.commits;
-          repoSources.owned++;
-          processedRepos++;
-        }
-      }
+      counts.push(...results.filter((result) => result !== null));
 
       // バッチ間の小さな遅延
       if (i + batchSize < reposToProcess.length) {
@@ -262,18 +723,212 @@ export async function getCommitCount(
     }
   }
 
-  // 組織リポジトリも含める場合
-  if (config.includeOrgRepos && processedRepos < 20) {
-    const orgResult = await getOrgRepoCommits(
-      username,
-      config,
-      since,
-      20 - processedRepos,
+  // 組織リポジトリも含める場合（所有リポジトリと合わせてmaxReposまで）
+  if (config.includeOrgRepos) {
+    if (scannedRepos < config.maxRepos) {
+      const orgResult = await getOrgRepoCommits(
+        username,
+        config,
+        since,
+        config.maxRepos - scannedRepos,
+        budget,
+        cursors,
+        includePrivate,
+      );
+      counts.push(...orgResult.repos);
+      if (orgResult.truncated) truncated = true;
+    } else {
+      truncated = true;
+    }
+  }
+
+  return {
+    ...sumRepoCounts(counts, truncated),
+    // 所有リポジトリの一覧を取得できなかった場合は一部のみの集計
+    partial: !ownedRepos.ok,
+  };
+}
+
+// GraphQLのcontributionsCollectionからコミット数を取得
+export async function getContributionCommitCount(
+  username: string,
+  monitoringDays: number,
+  config: Config,
+  budget?: RequestBudget,
+): Promise<CommitCountResult> {
+  const to = new Date();
+  const from = getMonitoringSince(monitoringDays, config.timezone, to);
+
+  const query = `
+    query($login: String!, $from: DateTime!, $to: DateTime!) {
+      user(login: $login) {
+        contributionsCollection(from: $from, to: $to) {
+          commitContributionsByRepository(maxRepositories: 100) {
+            repository { name owner { login } isPrivate }
+            contributions(first: 100) {
+              totalCount
+              nodes { occurredAt commitCount }
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const response = await fetchWithRetry(
+    getGithubGraphqlUrl(config.githubApiUrl),
+    {
+      method: "POST",
+      headers: {
+        ...getGithubHeaders(config.githubToken),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        query,
+        variables: {
+          login: username,
+          from: from.toISOString(),
+          to: to.toISOString(),
+        },
+      }),
+    },
+    3,
+    1000,
+    budget,
+  );
+
+  if (!response.ok) {
+    throw new Error(`GraphQL request failed with status ${response.status}`);
+  }
+
+  const json = await response.json() as GitHubContributionsResponse;
+  if (json.errors && json.errors.length > 0) {
+    throw new Error(
+      `GraphQL error: ${json.errors.map((e) => e.message).join(", ")}`,
+    );
+  }
+
+  const contributions = json.data?.user?.contributionsCollection
+    .commitContributionsByRepository ?? [];
+
+  const counts: RepoCount[] = [];
+  // 非公開リポジトリはREST版と同じく、トークンの持ち主本人の場合のみ数える
+  const includePrivate =
+    contributions.some(({ repository }) => repository.isPrivate) &&
+    await canReadPrivateRepos(username, config, budget);
+
+  for (const { repository, contributions: count } of contributions) {
+    const owner = repository.owner.login;
+    const isOwned = owner.toLowerCase() === username.toLowerCase();
+
+    // REST版と同じ除外条件を適用
+    // （作者の判定はGitHubの集計に従うため、Bot・メールアドレス等の条件は適用されない）
+    if (isExcludedRepo(owner, repository.name, config)) continue;
+    if (!isOwned && !config.includeOrgRepos) continue;
+    if (!isOwned && isExcludedOrg(owner, config)) continue;
+    // トークンで読める非公開リポジトリも返されるため、本人以外・設定で無効な場合は除外する
+    if (repository.isPrivate && !includePrivate) continue;
+    if (count.totalCount === 0) continue;
+
+    // contributionsは日ごとの記録（totalCountは日数）なのでcommitCountを合計する
+    const days = mergeDailyCommits(
+      ...count.nodes.map((node) => ({
+        [toDateString(new Date(node.occurredAt), config.timezone)]:
+          node.commitCount,
+      })),
+    );
+
+    counts.push({
+      name: `${owner}/${repository.name}`,
+      isOwned,
+      isPrivate: repository.isPrivate,
+      commits: Object.values(days)
+        .reduce((total, commits) => total + commits, 0),
+      days,
+      // 日ごとの記録が取得上限に達している場合は一部のみの集計
+      truncated: count.nodes.length < count.totalCount,
+    });
+  }
+
+  // リポジトリ数が取得上限に達している場合は一部のみの集計
+  return sumRepoCounts(counts, contributions.length >= 100);
+}
+
+// 設定された取得元でコミット数を集計
+export async function countCommits(
+  username: string,
+  monitoringDays: number,
+  config: Config,
+  budget?: RequestBudget,
+  cursors?: RepoCursors,
+): Promise<CommitCountResult> {
+  if (config.commitDataSource === "graphql") {
+    return getContributionCommitCount(username, monitoringDays, config, budget);
+  }
+  return getCommitCount(username, monitoringDays, config, budget, cursors);
+}
+
+// 検索APIで条件に一致するIssue・PRの件数を取得
+export async function getSearchCount(
+  query: string,
+  config: Config,
+  budget?: RequestBudget,
+): Promise<number> {
+  const params = new URLSearchParams({ q: query, per_page: "1" });
+
+  try {
+    const response = await fetchWithRetry(
+      `${config.githubApiUrl}/search/issues?${params}`,
+      { headers: getGithubHeaders(config.githubToken) },
+      3,
+      1000,
+      budget,
     );
-    totalCommits += orgResult.commits;
-    repoSources.org = orgResult.repos;
-    processedRepos += orgResult.repos;
+
+    if (response.ok) {
+      const result = await response.json() as GitHubSearchResponse;
+      return result.total_count;
+    }
+  } catch (error) {
+    console.error(`Error searching "${query}":`, error);
   }
 
-  return { commits: totalCommits, sources: repoSources };
-}
\ No newline at end of file
+  return 0;
+}
+
+// コミット以外の活動量を取得（重みが0の種類はリクエストしない）
+export async function getActivityCounts(
+  username: string,
+  monitoringDays: number,
+  config: Config,
+  budget?: RequestBudget,
+): Promise<Omit<ActivityBreakdown, "commits">> {
+  // 検索APIはISO 8601の日時を受け付ける（ミリ秒は不可）
+  const since = getMonitoringSince(monitoringDays, config.timezone);
+  const date = since.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  const queries: Record<keyof Omit<ActivityBreakdown, "commits">, string> = {
+    pullRequests: `type:pr author:${username} created:>=${date}`,
+    mergedPullRequests: `type:pr author:${username} merged:>=${date}`,
+    reviews:
+      `type:pr reviewed-by:${username} -author:${username} updated:>=${date}`,
+    issues: `type:issue author:${username} created:>=${date}`,
+    comments: `commenter:${username} -author:${username} updated:>=${date}`,
+  };
+
+  const counts = {
+    pullRequests: 0,
+    mergedPullRequests: 0,
+    reviews: 0,
+    issues: 0,
+    comments: 0,
+  };
+
+  // 検索APIはレート制限が厳しいため順番に実行
+  for (const kind of Object.keys(queries) as Array<keyof typeof queries>) {
+    if (config.activityWeights[kind] === 0) continue;
+    counts[kind] = await getSearchCount(queries[kind], config, budget);
+  }
+
+  return counts;
+}
@@ -0,0 +1,224 @@
+import type {
+  CommitAuthor,
+  CommitCountResult,
+  Config,
+  DailyCommits,
+  ForgeAccount,
+  GitLabCommit,
+  GitLabEvent,
+  GitLabProject,
+  GitLabUser,
+  RepoCount,
+} from "./types";
+import { fetchAllPages, MAX_SCANNED_COMMITS } from "./github";
+import { sumRepoCounts } from "./forge";
+import {
+  fetchWithRetry,
+  getAuthorEmails,
+  getMonitoringSince,
+  isExcludedOrg,
+  isExcludedRepo,
+  isTargetCommit,
+  toDateString,
+} from "./utils";
+
+// 集計対象のプロジェクトを探すために取得するpushイベントの上限
+const MAX_EVENTS = 1000;
+
+// GitLab APIヘッダー
+export function getGitLabHeaders(token?: string): HeadersInit {
+  const headers: HeadersInit = {
+    "Accept": "application/json",
+    "User-Agent": "Am-I-Genki-Badge-Service",
+  };
+  if (token) {
+    headers["PRIVATE-TOKEN"] = token;
+  }
+  return headers;
+}
+
+// ユーザー名からGitLabのユーザーを取得
+async function getGitLabUser(
+  account: ForgeAccount,
+): Promise<GitLabUser> {
+  const response = await fetchWithRetry(
+    `${account.baseUrl}/api/v4/users?username=${
+      encodeURIComponent(account.username)
+    }`,
+    { headers: getGitLabHeaders(account.token) },
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch GitLab user ${account.username}: ${response.status}`,
+    );
+  }
+
+  const users = await response.json() as GitLabUser[];
+  if (users.length === 0) {
+    throw new Error(`GitLab user ${account.username} was not found`);
+  }
+  return users[0];
+}
+
+// 非公開プロジェクトを数えるか（トークンの持ち主が対象ユーザー本人の場合のみ）
+async function canReadPrivateProjects(
+  account: ForgeAccount,
+  config: Config,
+): Promise<boolean> {
+  if (!config.includePrivateRepos || !account.token) return false;
+
+  try {
+    const response = await fetchWithRetry(
+      `${account.baseUrl}/api/v4/user`,
+      { headers: getGitLabHeaders(account.token) },
+    );
+    if (!response.ok) return false;
+
+    const user = await response.json() as GitLabUser;
+    return user.username.toLowerCase() === account.username.toLowerCase();
+  } catch (error) {
+    console.error("Error fetching the authenticated GitLab user:", error);
+    return false;
+  }
+}
+
+// ユーザー本人の作者情報か判定（GitLabのコミットにはユーザー名がないため、メールアドレスと表示名で判定）
+function getGitLabAuthorMatcher(
+  user: GitLabUser,
+  account: ForgeAccount,
+  config: Config,
+): (author: CommitAuthor) => boolean {
+  const emails = [
+    ...getAuthorEmails(account.githubUsername, config),
+    `${user.id}-${user.username}@users.noreply.gitlab.com`.toLowerCase(),
+  ];
+  if (user.public_email) emails.push(user.public_email.toLowerCase());
+
+  return (author) =>
+    (!!author.email && emails.includes(author.email.toLowerCase())) ||
+    (!!author.name && author.name === user.name);
+}
+
+// GitLabのコミット数を取得
+// 監視期間内にpushしたプロジェクトをイベントから探し、デフォルトブランチのコミットを数える
+export async function countGitLabCommits(
+  account: ForgeAccount,
+  monitoringDays: number,
+  config: Config,
+): Promise<CommitCountResult> {
+  const apiUrl = `${account.baseUrl}/api/v4`;
+  const headers = getGitLabHeaders(account.token);
+  const host = new URL(account.baseUrl).host;
+  const since = getMonitoringSince(monitoringDays, config.timezone);
+  const user = await getGitLabUser(account);
+  const isAuthor = getGitLabAuthorMatcher(user, account, config);
+  const includePrivate = await canReadPrivateProjects(account, config);
+
+  // afterは指定日を含まないため前日を指定
+  const eventsResult = await fetchAllPages<GitLabEvent>(
+    `${apiUrl}/users/${user.id}/events?action=pushed&after=${
+      toDateString(since, config.timezone, 1)
+    }&per_page=100`,
+    {
+      headers,
+      maxItems: MAX_EVENTS,
+      filter: (event) => new Date(event.created_at) >= since,
+    },
+  );
+  if (!eventsResult.ok) {
+    throw new Error(`Failed to fetch GitLab events for ${account.username}`);
+  }
+
+  let truncated = eventsResult.truncated;
+  let projectIds = [
+    ...new Set(eventsResult.items.map((event) => event.project_id)),
+  ];
+  if (projectIds.length > config.maxRepos) {
+    projectIds = projectIds.slice(0, config.maxRepos);
+    truncated = true;
+  }
+
+  const countProjectCommits = async (
+    projectId: number,
+  ): Promise<RepoCount | null> => {
+    try {
+      const projectResponse = await fetchWithRetry(
+        `${apiUrl}/projects/${projectId}`,
+        { headers },
+      );
+      // 削除・非公開になったプロジェクトはスキップ
+      if (!projectResponse.ok) return null;
+
+      const project = await projectResponse.json() as GitLabProject;
+      const namespace = project.namespace.full_path;
+      const isOwned = project.namespace.kind === "user" &&
+        namespace.toLowerCase() === user.username.toLowerCase();
+
+      const isPrivate = !!project.visibility &&
+        project.visibility !== "public";
+
+      if (isPrivate && !includePrivate) return null;
+      if (isExcludedRepo(namespace, project.path, config)) return null;
+      if (
+        !isOwned &&
+        (!config.includeOrgRepos || isExcludedOrg(namespace, config))
+      ) {
+        return null;
+      }
+
+      const result = await fetchAllPages<GitLabCommit>(
+        `${apiUrl}/projects/${projectId}/repository/commits?since=${since.toISOString()}&per_page=100`,
+        {
+          headers,
+          maxItems: config.maxCommitsPerRepo,
+          maxScanned: MAX_SCANNED_COMMITS,
+          filter: (commit) =>
+            isTargetCommit(
+              {
+                name: commit.author_name,
+                email: commit.author_email,
+                message: commit.message,
+                isMerge: commit.parent_ids.length >= 2,
+              },
+              isAuthor,
+              config,
+            ),
+        },
+      );
+      if (!result.ok || result.items.length === 0) return null;
+
+      const days: DailyCommits = {};
+      for (const commit of result.items) {
+        const date = toDateString(
+          new Date(commit.committed_date),
+          config.timezone,
+        );
+        days[date] = (days[date] ?? 0) + 1;
+      }
+
+      return {
+        name: `${host}/${project.path_with_namespace}`,
+        isOwned,
+        isPrivate,
+        commits: result.items.length,
+        days,
+        truncated: result.truncated,
+      };
+    } catch (error) {
+      console.error(`Error processing GitLab project ${projectId}:`, error);
+      return null;
+    }
+  };
+
+  // バッチ処理でコミット数を確認
+  const counts: RepoCount[] = [];
+  const batchSize = 5;
+  for (let i = 0; i < projectIds.length; i += batchSize) {
+    const results = await Promise.all(
+      projectIds.slice(i, i + batchSize).map(countProjectCommits),
+    );
+    counts.push(...results.filter((result) => result !== null));
+  }
+
+  return sumRepoCounts(counts, truncated);
+}
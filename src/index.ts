@@ -1,85 +1,441 @@
 import { Hono } from "hono";
-import type { Env, CacheData, BadgeStyle } from "./types";
-import { getConfig, isBotAccount, getHealthStatus } from "./utils";
-import { getCommitCount } from "./github";
-import { shouldUpdateCache, updateCacheInBackground } from "./cache";
-import { generateBadgeSVG, isValidBadgeStyle } from "./badge";
+import type { Context } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import { etag, RETAINED_304_HEADERS } from "hono/etag";
+import type {
+  BadgeFormat,
+  BadgeMode,
+  BadgeStyle,
+  CacheData,
+  CardColorScheme,
+  Config,
+  Env,
+  GitHubPushEvent,
+  TokenCheck,
+  TrendType,
+} from "./types";
+import { getConfig, getTokenCheck, loadConfig, redactConfig } from "./config";
+import {
+  getCurrentStreak,
+  getHealthStatus,
+  getScheduledUsernames,
+  getTopRepos,
+  isAllowedUser,
+  isBotAccount,
+  isValidUsername,
+} from "./utils";
+import {
+  getCacheData,
+  getCacheKey,
+  getHistory,
+  getHistorySeries,
+  getRefreshStatus,
+  isRefreshBackingOff,
+  purgeCache,
+  refreshCache,
+  runScheduledRefresh,
+  shouldUpdateCache,
+} from "./cache";
+import {
+  formatScore,
+  generateBadgeSVG,
+  generateProfileCardSVG,
+  generateTopReposSVG,
+  generateTrendSVG,
+  getActivityBadgeContent,
+  getBadgeContent,
+  isValidBadgeMode,
+  isValidBadgeStyle,
+  isValidCardColorScheme,
+  makeBadgeSVG,
+  isValidTrendType,
+  parseBadgeThemeQuery,
+  resolveBadgeTheme,
+  toEndpointJSON,
+} from "./badge";
+import { getTeamHealth } from "./team";
+import { getNotificationStatus, notifyStatusChange } from "./notify";
+import {
+  handlePushEvent,
+  isDeliveryProcessed,
+  markDeliveryProcessed,
+  verifyWebhookSignature,
+} from "./webhook";
 
 // アプリケーション初期化
 const app = new Hono<{ Bindings: Env }>();
 
-// メインエンドポイント：バッジ取得
-app.get("/badge", async (c) => {
-  const env = c.env;
-  const config = getConfig(env);
+type AppContext = Context<{ Bindings: Env }>;
 
-  if (!config.username) {
-    return c.text("GITHUB_USERNAME not configured", 500);
+// 対象ユーザーの検証（問題があればエラーレスポンスを返す）
+function validateUser(
+  c: AppContext,
+  config: Config,
+  username: string,
+): Response | null {
+  if (!isValidUsername(username)) {
+    return c.text("Invalid username", 400);
+  }
+
+  if (!isAllowedUser(username, config)) {
+    return c.text("User is not allowed", 403);
+  }
+
+  // Botユーザーチェック（簡易チェック）
+  if (
+    isBotAccount(
+      username,
+      undefined,
+      undefined,
+      config.commitFilter.botPatterns,
+    )
+  ) {
+    return c.text("Bot users are not supported", 400);
+  }
+
+  return null;
+}
+
+// クエリパラメータで指定できる監視期間・しきい値の上限
+const MAX_QUERY_DAYS = 90;
+const MAX_QUERY_THRESHOLD = 10000;
+
+// クエリパラメータで上書きした設定
+interface QueryOverrides {
+  config: Config;
+  // キャッシュの取得・更新に使う設定（しきい値は上書きせず、表示時に判定し直す）
+  cacheConfig: Config;
+  cacheKey: string;
+  scheduledUsernames: string[];
+}
+
+// クエリパラメータの整数の読み込み（未指定ならundefined、範囲外はエラーに追加）
+function readQueryInteger(
+  c: AppContext,
+  errors: string[],
+  key: string,
+  min: number,
+  max: number,
+): number | undefined {
+  const value = c.req.query(key);
+  if (value === undefined || value === "") return undefined;
+
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < min || number > max) {
+    errors.push(`${key} must be an integer between ${min} and ${max}`);
+    return undefined;
+  }
+  return number;
+}
+
+// 監視期間（days）・しきい値（healthy・moderate）の上書き
+// 監視期間ごとに別のキャッシュを使い、しきい値のみの上書きは同じデータを判定し直す
+function getQueryOverrides(
+  c: AppContext,
+  username: string,
+): QueryOverrides | { error: string } {
+  const baseConfig = getConfig(c.env);
+  const config = { ...baseConfig, username };
+  const errors: string[] = [];
+  const days = readQueryInteger(c, errors, "days", 1, MAX_QUERY_DAYS);
+  const healthy = readQueryInteger(
+    c,
+    errors,
+    "healthy",
+    0,
+    MAX_QUERY_THRESHOLD,
+  );
+  const moderate = readQueryInteger(
+    c,
+    errors,
+    "moderate",
+    0,
+    MAX_QUERY_THRESHOLD,
+  );
+  if (errors.length > 0) {
+    return { error: errors.join(", ") };
+  }
+
+  const cacheConfig: Config = {
+    ...config,
+    monitoringDays: days ?? config.monitoringDays,
+  };
+  const overridden: Config = {
+    ...cacheConfig,
+    healthyThreshold: healthy ?? config.healthyThreshold,
+    moderateThreshold: moderate ?? config.moderateThreshold,
+  };
+  if (overridden.moderateThreshold >= overridden.healthyThreshold) {
+    return {
+      error: `moderate (${overridden.moderateThreshold}) must be less than ` +
+        `healthy (${overridden.healthyThreshold})`,
+    };
+  }
+
+  const isDefaultWindow = cacheConfig.monitoringDays === config.monitoringDays;
+  return {
+    config: overridden,
+    cacheConfig,
+    cacheKey: isDefaultWindow
+      ? getCacheKey(username)
+      : getCacheKey(username, cacheConfig.monitoringDays),
+    scheduledUsernames: getScheduledUsernames(baseConfig),
+  };
+}
+
+// 上書きした設定でキャッシュデータを取得（しきい値を上書きした場合は判定し直す）
+async function getOverriddenCacheData(
+  c: AppContext,
+  { config, cacheConfig, cacheKey, scheduledUsernames }: QueryOverrides,
+): Promise<CacheData> {
+  const data = await getCacheData(
+    c.env,
+    c.executionCtx,
+    cacheConfig,
+    cacheKey,
+    scheduledUsernames,
+  );
+  if (
+    config.healthyThreshold === cacheConfig.healthyThreshold &&
+    config.moderateThreshold === cacheConfig.moderateThreshold
+  ) {
+    return data;
   }
 
-  const cacheKey = `github-health:${config.username}`;
+  return {
+    ...data,
+    status: getHealthStatus(
+      data.score ?? data.commits,
+      config.healthyThreshold,
+      config.moderateThreshold,
+    ),
+  };
+}
+
+// 指定ユーザーのバッジを生成
+async function renderBadge(
+  c: AppContext,
+  username: string,
+  format: BadgeFormat = "svg",
+): Promise<Response> {
+  const overrides = getQueryOverrides(c, username);
+  if ("error" in overrides) {
+    return c.text(overrides.error, 400);
+  }
+  const { config } = overrides;
+
+  // PNGはshields.ioのラスタライズサービスに同じクエリのJSONエンドポイントを渡す
+  if (format === "png") {
+    const jsonUrl = new URL(c.req.url);
+    jsonUrl.pathname = jsonUrl.pathname.replace(/\.png$/, ".json");
+
+    return c.redirect(
+      `https://raster.shields.io/endpoint?url=${
+        encodeURIComponent(jsonUrl.toString())
+      }`,
+      302,
+    );
+  }
 
   try {
-    // キャッシュチェック
-    const cached = await env.AM_I_GENKI_CACHE.get(cacheKey, "json") as
-      | CacheData
-      | null;
+    const data = await getOverriddenCacheData(c, overrides);
 
-    let data: CacheData;
+    // クエリパラメータからスタイルを取得
+    const url = new URL(c.req.url);
+    const styleParam = url.searchParams.get("style") || "flat";
+    const badgeStyle: BadgeStyle = isValidBadgeStyle(styleParam)
+      ? styleParam
+      : "flat";
 
-    if (cached) {
-      // キャッシュがある場合は常に返す（SWR）
-      data = cached;
+    const modeParam = url.searchParams.get("mode") || "status";
+    const mode: BadgeMode = isValidBadgeMode(modeParam) ? modeParam : "status";
 
-      // 更新が必要な場合はバックグラウンドで更新
-      if (shouldUpdateCache(cached.lastUpdated, config.jstUpdateHour)) {
-        // waitUntilを使ってバックグラウンド処理を実行
-        c.executionCtx.waitUntil(
-          updateCacheInBackground(env, config, cacheKey),
-        );
-      }
-    } else {
-      // キャッシュがない場合は同期的に取得
-      // Botユーザーチェック（簡易チェック）
-      if (isBotAccount(config.username)) {
-        return c.text("Bot users are not supported", 400);
-      }
+    const score = data.score ?? data.commits;
+    const theme = resolveBadgeTheme(
+      parseBadgeThemeQuery(url.searchParams),
+      config.badgeTheme,
+    );
 
-      // 新規データ取得
-      const result = await getCommitCount(
-        config.username,
+    // 連続日数・最後のコミットからの日数（旧キャッシュでは元気度を表示）
+    const content = mode !== "status" && data.streak
+      ? getActivityBadgeContent(
+        mode,
+        getCurrentStreak(data.streak, config.timezone),
         config.monitoringDays,
-        config,
-      );
-
-      const status = getHealthStatus(
-        result.commits,
-        config.healthyThreshold,
-        config.moderateThreshold,
-      );
-
-      data = {
-        commits: result.commits,
-        status,
-        lastUpdated: new Date().toISOString(),
-        sources: result.sources,
-      };
-
-      // キャッシュ保存
-      await env.AM_I_GENKI_CACHE.put(cacheKey, JSON.stringify(data), {
-        expirationTtl: config.cacheTTL,
-      });
+        theme,
+      )
+      : getBadgeContent(data.status, formatScore(data), theme);
+    const headers = {
+      "Cache-Control": "public, max-age=3600",
+      "X-Commits": data.commits.toString(),
+      "X-Score": score.toString(),
+      "X-Status": data.status,
+      "X-Username": config.username,
+      "X-Partial": String(!!data.partial),
+      "X-Truncated": String(!!data.truncated),
+    };
+
+    // shields.ioエンドポイント形式のJSON
+    if (format === "json") {
+      return c.json(toEndpointJSON(content, badgeStyle), 200, headers);
     }
 
-    // クエリパラメータからスタイルを取得
+    // SVG生成とレスポンス
+    const svg = makeBadgeSVG(content, badgeStyle);
+
+    return new Response(svg, {
+      headers: { "Content-Type": "image/svg+xml", ...headers },
+    });
+  } catch (error) {
+    console.error("Error generating badge:", error);
+    return c.text("Error generating badge", 500);
+  }
+}
+
+// 指定ユーザーのトレンドバッジを生成
+async function renderTrendBadge(
+  c: AppContext,
+  username: string,
+): Promise<Response> {
+  const baseConfig = getConfig(c.env);
+  const config = { ...baseConfig, username };
+
+  // 表示日数は記録している履歴の日数まで（範囲外は他のエンドポイントと同じく400）
+  const errors: string[] = [];
+  const days = readQueryInteger(c, errors, "days", 1, config.historyDays) ??
+    Math.min(30, config.historyDays);
+  if (errors.length > 0) {
+    return c.text(errors.join(", "), 400);
+  }
+
+  try {
+    // 現在のステータス取得と同時に、必要であれば更新（履歴も記録される）
+    const data = await getCacheData(
+      c.env,
+      c.executionCtx,
+      config,
+      getCacheKey(username),
+      getScheduledUsernames(baseConfig),
+    );
+    const history = await getHistory(c.env, username);
+
+    // クエリパラメータから表示形式・スタイルを取得
     const url = new URL(c.req.url);
+    const typeParam = url.searchParams.get("type") || "sparkline";
+    const trendType: TrendType = isValidTrendType(typeParam)
+      ? typeParam
+      : "sparkline";
     const styleParam = url.searchParams.get("style") || "flat";
     const badgeStyle: BadgeStyle = isValidBadgeStyle(styleParam)
       ? styleParam
       : "flat";
 
-    // SVG生成とレスポンス
-    const svg = generateBadgeSVG(data.status, data.commits, badgeStyle);
+    const svg = generateTrendSVG(
+      getHistorySeries(history, days, config.timezone),
+      data.status,
+      trendType,
+      badgeStyle,
+      resolveBadgeTheme(
+        parseBadgeThemeQuery(url.searchParams),
+        config.badgeTheme,
+      ),
+    );
+
+    return new Response(svg, {
+      headers: {
+        "Content-Type": "image/svg+xml",
+        "Cache-Control": "public, max-age=3600",
+        "X-Status": data.status,
+        "X-Username": config.username,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating trend badge:", error);
+    return c.text("Error generating trend badge", 500);
+  }
+}
+
+// 上位リポジトリのカードに表示する最大件数
+const MAX_CARD_REPOS = 10;
+
+// クエリパラメータから表示件数を取得（1〜maxの範囲に丸める）
+function getLimitParam(c: AppContext, defaultValue: number, max: number) {
+  const limit = parseInt(c.req.query("limit") || `${defaultValue}`);
+  return Number.isNaN(limit)
+    ? defaultValue
+    : Math.min(Math.max(limit, 1), max);
+}
+
+// 指定ユーザーの上位リポジトリのカードを生成
+async function renderTopReposCard(
+  c: AppContext,
+  username: string,
+): Promise<Response> {
+  const overrides = getQueryOverrides(c, username);
+  if ("error" in overrides) {
+    return c.text(overrides.error, 400);
+  }
+  const { config } = overrides;
+
+  try {
+    const data = await getOverriddenCacheData(c, overrides);
+    const url = new URL(c.req.url);
+
+    const svg = generateTopReposSVG(
+      getTopRepos(data.repos ?? {}, getLimitParam(c, 5, MAX_CARD_REPOS)),
+      data.status,
+      resolveBadgeTheme(
+        parseBadgeThemeQuery(url.searchParams),
+        config.badgeTheme,
+      ),
+    );
+
+    return new Response(svg, {
+      headers: {
+        "Content-Type": "image/svg+xml",
+        "Cache-Control": "public, max-age=3600",
+        "X-Status": data.status,
+        "X-Username": config.username,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating top repos card:", error);
+    return c.text("Error generating top repos card", 500);
+  }
+}
+
+// 指定ユーザーのプロフィールカードを生成
+async function renderProfileCard(
+  c: AppContext,
+  username: string,
+): Promise<Response> {
+  const overrides = getQueryOverrides(c, username);
+  if ("error" in overrides) {
+    return c.text(overrides.error, 400);
+  }
+  const { config } = overrides;
+
+  try {
+    const data = await getOverriddenCacheData(c, overrides);
+    const url = new URL(c.req.url);
+    const schemeParam = url.searchParams.get("theme") || "auto";
+    const scheme: CardColorScheme = isValidCardColorScheme(schemeParam)
+      ? schemeParam
+      : "auto";
+
+    const svg = generateProfileCardSVG(
+      data,
+      {
+        username: config.username,
+        monitoringDays: config.monitoringDays,
+        timezone: config.timezone,
+        scheme,
+      },
+      resolveBadgeTheme(
+        parseBadgeThemeQuery(url.searchParams),
+        config.badgeTheme,
+      ),
+    );
 
     return new Response(svg, {
       headers: {
@@ -91,21 +447,564 @@ app.get("/badge", async (c) => {
       },
     });
   } catch (error) {
-    console.error("Error generating badge:", error);
-    return c.text("Error generating badge", 500);
+    console.error("Error generating profile card:", error);
+    return c.text("Error generating profile card", 500);
+  }
+}
+
+// 指定ユーザーのリポジトリごとのコミット数をJSONで返す
+async function renderRepos(
+  c: AppContext,
+  username: string,
+): Promise<Response> {
+  const overrides = getQueryOverrides(c, username);
+  if ("error" in overrides) {
+    return c.json({ error: overrides.error }, 400);
+  }
+  const { config } = overrides;
+
+  try {
+    const data = await getOverriddenCacheData(c, overrides);
+    const repos = data.repos ? getTopRepos(data.repos) : null;
+
+    return c.json({
+      username: config.username,
+      commits: data.commits,
+      lastUpdated: data.lastUpdated,
+      sources: data.sources,
+      // 旧キャッシュにはリポジトリごとの内訳がないためnull（次回の更新で記録される）
+      repos: repos && repos.slice(0, getLimitParam(c, repos.length, 100)),
+      // 非公開リポジトリは名前を出さず合計のみ
+      privateCommits: data.privateCommits ?? 0,
+      partial: !!data.partial,
+      truncated: !!data.truncated,
+      monitoringDays: config.monitoringDays,
+    }, 200, {
+      "Cache-Control": "public, max-age=3600",
+    });
+  } catch (error) {
+    console.error("Error fetching repos:", error);
+    return c.json({ error: "Error fetching repos" }, 500);
+  }
+}
+
+// 指定ユーザーのステータスをJSONで返す
+async function renderStatus(
+  c: AppContext,
+  username: string,
+): Promise<Response> {
+  const overrides = getQueryOverrides(c, username);
+  if ("error" in overrides) {
+    return c.json({ error: overrides.error }, 400);
+  }
+  const { config } = overrides;
+
+  try {
+    const data = await getOverriddenCacheData(c, overrides);
+
+    // If-None-Matchがない場合のみIf-Modified-Sinceを評価（秒単位で比較）
+    // Webhookで加算された場合はその日時を最終更新とする
+    const lastModified = new Date(
+      data.lastWebhookAt && data.lastWebhookAt > data.lastUpdated
+        ? data.lastWebhookAt
+        : data.lastUpdated,
+    );
+    const ifModifiedSince = c.req.header("If-Modified-Since");
+    if (!c.req.header("If-None-Match") && ifModifiedSince) {
+      const since = Date.parse(ifModifiedSince);
+      if (
+        !Number.isNaN(since) &&
+        Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000)
+      ) {
+        return c.body(null, 304, {
+          "Cache-Control": "public, max-age=3600",
+          "Last-Modified": lastModified.toUTCString(),
+        });
+      }
+    }
+
+    return c.json({
+      username: config.username,
+      commits: data.commits,
+      score: data.score ?? data.commits,
+      status: data.status,
+      lastUpdated: data.lastUpdated,
+      sources: data.sources,
+      activity: data.activity ?? null,
+      streak: data.streak
+        ? getCurrentStreak(data.streak, config.timezone)
+        : null,
+      partial: !!data.partial,
+      truncated: !!data.truncated,
+      thresholds: {
+        healthy: config.healthyThreshold,
+        moderate: config.moderateThreshold,
+      },
+      monitoringDays: config.monitoringDays,
+    }, 200, {
+      "Cache-Control": "public, max-age=3600",
+      "Last-Modified": lastModified.toUTCString(),
+    });
+  } catch (error) {
+    console.error("Error fetching status:", error);
+    return c.json({ error: "Error fetching status" }, 500);
+  }
+}
+
+// メインエンドポイント：バッジ取得（デフォルトユーザー）
+app.get("/badge", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.text("GITHUB_USERNAME not configured", 500);
+  }
+
+  return validateUser(c, config, config.username) ??
+    renderBadge(c, config.username);
+});
+
+// shields.ioエンドポイントJSON・PNGバッジ取得（デフォルトユーザー）
+app.get("/badge.json", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.text("GITHUB_USERNAME not configured", 500);
+  }
+
+  return validateUser(c, config, config.username) ??
+    renderBadge(c, config.username, "json");
+});
+
+app.get("/badge.png", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.text("GITHUB_USERNAME not configured", 500);
+  }
+
+  return validateUser(c, config, config.username) ??
+    renderBadge(c, config.username, "png");
+});
+
+// トレンドバッジ取得（デフォルトユーザー）
+// /badge/:username より先に登録する
+app.get("/badge/trend", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.text("GITHUB_USERNAME not configured", 500);
+  }
+
+  return validateUser(c, config, config.username) ??
+    renderTrendBadge(c, config.username);
+});
+
+// ユーザー指定のトレンドバッジ取得
+app.get("/badge/trend/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  return validateUser(c, config, username) ?? renderTrendBadge(c, username);
+});
+
+// 上位リポジトリのカード取得（デフォルトユーザー）
+// /badge/:username より先に登録する
+app.get("/badge/repos", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.text("GITHUB_USERNAME not configured", 500);
+  }
+
+  return validateUser(c, config, config.username) ??
+    renderTopReposCard(c, config.username);
+});
+
+// ユーザー指定の上位リポジトリのカード取得
+app.get("/badge/repos/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  return validateUser(c, config, username) ??
+    renderTopReposCard(c, username);
+});
+
+// ユーザー指定のshields.ioエンドポイントJSON・PNGバッジ取得
+// /badge/:username より先に登録する
+app.get("/badge/:file{[A-Za-z0-9-]+\\.(?:json|png)}", async (c) => {
+  const config = getConfig(c.env);
+  const [username, extension] = c.req.param("file").split(".");
+  const format: BadgeFormat = extension === "png" ? "png" : "json";
+
+  return validateUser(c, config, username) ??
+    renderBadge(c, username, format);
+});
+
+// ユーザー指定のバッジ取得
+app.get("/badge/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  return validateUser(c, config, username) ?? renderBadge(c, username);
+});
+
+// プロフィールカード取得（デフォルトユーザー）
+app.get("/card", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.text("GITHUB_USERNAME not configured", 500);
+  }
+
+  return validateUser(c, config, config.username) ??
+    renderProfileCard(c, config.username);
+});
+
+// ユーザー指定のプロフィールカード取得
+app.get("/card/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  return validateUser(c, config, username) ??
+    renderProfileCard(c, username);
+});
+
+// ステータスAPI（ETagによる条件付きリクエストに対応）
+app.use(
+  "/api/*",
+  etag({ retainedHeaders: [...RETAINED_304_HEADERS, "last-modified"] }),
+);
+
+// ステータス取得（デフォルトユーザー）
+app.get("/api/status", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.json({ error: "GITHUB_USERNAME not configured" }, 500);
+  }
+
+  return validateUser(c, config, config.username) ??
+    renderStatus(c, config.username);
+});
+
+// ユーザー指定のステータス取得
+app.get("/api/status/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  return validateUser(c, config, username) ?? renderStatus(c, username);
+});
+
+// リポジトリごとのコミット数取得（デフォルトユーザー）
+app.get("/api/repos", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.username) {
+    return c.json({ error: "GITHUB_USERNAME not configured" }, 500);
   }
+
+  return validateUser(c, config, config.username) ??
+    renderRepos(c, config.username);
+});
+
+// ユーザー指定のリポジトリごとのコミット数取得
+app.get("/api/repos/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  return validateUser(c, config, username) ?? renderRepos(c, username);
+});
+
+// チームの元気度バッジ
+app.get("/team/:name", async (c) => {
+  const config = getConfig(c.env);
+  const name = c.req.param("name");
+  const team = config.teams.find((team) => team.name === name);
+
+  if (!team) {
+    return c.text("Team not found", 404);
+  }
+
+  try {
+    const health = await getTeamHealth(c.env, c.executionCtx, config, team);
+
+    // クエリパラメータからスタイルを取得
+    const url = new URL(c.req.url);
+    const styleParam = url.searchParams.get("style") || "flat";
+    const badgeStyle: BadgeStyle = isValidBadgeStyle(styleParam)
+      ? styleParam
+      : "flat";
+    const theme = resolveBadgeTheme(
+      parseBadgeThemeQuery(url.searchParams),
+      config.badgeTheme,
+      { label: `Is ${team.name} Genki?` },
+    );
+
+    const svg = generateBadgeSVG(
+      health.status,
+      health.score,
+      badgeStyle,
+      theme,
+    );
+
+    return new Response(svg, {
+      headers: {
+        "Content-Type": "image/svg+xml",
+        "Cache-Control": "public, max-age=3600",
+        "X-Score": health.score.toString(),
+        "X-Status": health.status,
+        "X-Team": team.name,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating team badge:", error);
+    return c.text("Error generating team badge", 500);
+  }
+});
+
+// チームの元気度とメンバーごとのステータス
+app.get("/api/team/:name", async (c) => {
+  const config = getConfig(c.env);
+  const name = c.req.param("name");
+  const team = config.teams.find((team) => team.name === name);
+
+  if (!team) {
+    return c.json({ error: "Team not found" }, 404);
+  }
+
+  try {
+    const health = await getTeamHealth(c.env, c.executionCtx, config, team);
+
+    return c.json({
+      ...health,
+      thresholds: {
+        healthy: config.teamHealthyThreshold,
+        moderate: config.teamModerateThreshold,
+      },
+      monitoringDays: config.monitoringDays,
+    }, 200, {
+      "Cache-Control": "public, max-age=3600",
+    });
+  } catch (error) {
+    console.error("Error fetching team status:", error);
+    return c.json({ error: "Error fetching team status" }, 500);
+  }
+});
+
+// GitHub Webhook受信（pushイベントでキャッシュのコミット数を加算）
+app.post("/webhook/github", async (c) => {
+  const config = getConfig(c.env);
+
+  if (!config.webhookSecret) {
+    return c.text("GITHUB_WEBHOOK_SECRET not configured", 500);
+  }
+
+  // 署名検証のため、パース前の本文を使う
+  const body = await c.req.text();
+  const isValid = await verifyWebhookSignature(
+    config.webhookSecret,
+    body,
+    c.req.header("X-Hub-Signature-256"),
+  );
+  if (!isValid) {
+    return c.text("Invalid signature", 401);
+  }
+
+  const event = c.req.header("X-GitHub-Event");
+  if (event === "ping") {
+    return c.json({ message: "pong" });
+  }
+  if (event !== "push") {
+    return c.json({ message: `Ignored event: ${event}` }, 202);
+  }
+
+  // 同じ配信IDのイベントは一度だけ処理する
+  const deliveryId = c.req.header("X-GitHub-Delivery");
+  if (!deliveryId) {
+    return c.text("Missing X-GitHub-Delivery header", 400);
+  }
+  if (await isDeliveryProcessed(c.env, deliveryId)) {
+    return c.json({ message: "Already processed", deliveryId });
+  }
+
+  let payload: GitHubPushEvent;
+  try {
+    payload = JSON.parse(body) as GitHubPushEvent;
+  } catch {
+    return c.text("Invalid payload", 400);
+  }
+
+  try {
+    const updated = await handlePushEvent(
+      c.env,
+      c.executionCtx,
+      config,
+      payload,
+    );
+
+    // 処理に成功した場合のみ記録し、失敗時は再配信で処理できるようにする
+    await markDeliveryProcessed(c.env, deliveryId);
+
+    return c.json({ message: "OK", deliveryId, updated });
+  } catch (error) {
+    console.error("Error handling webhook:", error);
+    return c.text("Error handling webhook", 500);
+  }
+});
+
+// 管理用エンドポイントの認証（ADMIN_TOKENをBearerトークンとして検証）
+app.use("/admin/*", async (c, next) => {
+  const config = getConfig(c.env);
+
+  if (!config.adminToken) {
+    return c.text("ADMIN_TOKEN not configured", 500);
+  }
+
+  c.header("Cache-Control", "no-store");
+  return bearerAuth({ token: config.adminToken })(c, next);
+});
+
+// キャッシュを同期的に更新（再試行待ちの場合も更新する）
+app.post("/admin/refresh/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  const invalid = validateUser(c, config, username);
+  if (invalid) return invalid;
+
+  try {
+    const userConfig = { ...config, username };
+    const cacheKey = getCacheKey(username);
+    const previous = await c.env.AM_I_GENKI_CACHE.get(cacheKey, "json") as
+      | CacheData
+      | null;
+    const data = await refreshCache(c.env, userConfig, cacheKey);
+
+    // 元気度が変化していれば通知（配信の再試行を待たずに返す）
+    c.executionCtx.waitUntil(
+      notifyStatusChange(c.env, userConfig, previous, data),
+    );
+
+    return c.json({ username, data });
+  } catch (error) {
+    console.error(`Admin refresh failed for ${username}:`, error);
+    return c.json({
+      error: "Refresh failed",
+      message: error instanceof Error ? error.message : String(error),
+      refresh: await getRefreshStatus(c.env, getCacheKey(username)),
+    }, 502);
+  }
+});
+
+// キャッシュを削除（history=trueなら履歴も削除）
+app.delete("/admin/cache/:username", async (c) => {
+  const username = c.req.param("username");
+
+  if (!isValidUsername(username)) {
+    return c.text("Invalid username", 400);
+  }
+
+  const includeHistory = c.req.query("history") === "true";
+  await purgeCache(c.env, username, includeHistory);
+
+  return c.json({ username, purged: true, history: includeHistory });
+});
+
+// キャッシュと更新の状態（直近の失敗・再試行までの待ち時間）
+app.get("/admin/status/:username", async (c) => {
+  const config = getConfig(c.env);
+  const username = c.req.param("username");
+
+  if (!isValidUsername(username)) {
+    return c.text("Invalid username", 400);
+  }
+
+  const [cached, refresh, notification] = await Promise.all([
+    c.env.AM_I_GENKI_CACHE.get(getCacheKey(username), "json") as Promise<
+      CacheData | null
+    >,
+    getRefreshStatus(c.env, getCacheKey(username)),
+    getNotificationStatus(c.env, username),
+  ]);
+
+  return c.json({
+    username,
+    cache: cached
+      ? {
+        lastUpdated: cached.lastUpdated,
+        lastWebhookAt: cached.lastWebhookAt ?? null,
+        status: cached.status,
+        commits: cached.commits,
+        score: cached.score ?? cached.commits,
+        partial: !!cached.partial,
+        truncated: !!cached.truncated,
+        stale: shouldUpdateCache(
+          cached.lastUpdated,
+          config.updateHour,
+          config.timezone,
+        ),
+      }
+      : null,
+    refresh,
+    backingOff: isRefreshBackingOff(refresh),
+    notification,
+  });
+});
+
+// 設定の診断（秘匿情報を伏せた有効な設定値・検証エラー・トークンの確認結果）
+app.get("/admin/config", async (c) => {
+  const { config, errors } = loadConfig(c.env);
+
+  let token: TokenCheck;
+  try {
+    token = await getTokenCheck(c.env, config);
+  } catch (error) {
+    console.error("Error checking GitHub token:", error);
+    token = { configured: true, checkedAt: new Date().toISOString() };
+  }
+
+  return c.json({
+    valid: errors.length === 0,
+    errors,
+    config: redactConfig(config),
+    token,
+  });
 });
 
 // ヘルスチェックエンドポイント
 app.get("/health", async (c) => {
-  const config = getConfig(c.env);
+  const { config, errors } = loadConfig(c.env);
 
   return c.json({
     status: "ok",
     service: "Am I Genki? Badge Service",
     configured: !!config.username,
+    configValid: errors.length === 0,
     timestamp: new Date().toISOString(),
   });
 });
 
-export default app;
\ No newline at end of file
+// 設定の検証結果（公開用のため、エラーの環境変数名と種類のみ返す）
+app.get("/config", (c) => {
+  const { errors } = loadConfig(c.env);
+
+  c.header("Cache-Control", "no-store");
+  return c.json({
+    valid: errors.length === 0,
+    errors: errors.map(({ key, code }) => ({ key, code })),
+  });
+});
+
+// Cronトリガー：設定ユーザーのキャッシュを定期更新
+async function scheduled(
+  _controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext,
+) {
+  ctx.waitUntil(runScheduledRefresh(env, getConfig(env)));
+}
+
+export default {
+  fetch: app.fetch,
+  scheduled,
+} satisfies ExportedHandler<Env>;
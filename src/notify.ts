@@ -0,0 +1,235 @@
+import type {
+  BadgeLang,
+  CacheData,
+  Config,
+  Env,
+  NotificationStatus,
+  NotifyRule,
+  NotifyTarget,
+  StatusTransition,
+} from "./types";
+import { getStatusText, resolveBadgeTheme } from "./badge";
+import { fetchWithRetry } from "./utils";
+
+// 配信の最大試行回数（5xx・429・ネットワークエラーは間隔を空けて再試行）
+const NOTIFY_MAX_RETRIES = 3;
+const NOTIFY_RETRY_DELAY = 1000;
+
+// 通知の状態の最低保持期間
+const NOTIFY_STATUS_TTL = 7 * 24 * 60 * 60;
+
+// 言語ごとの通知メッセージ
+const transitionMessages: Record<
+  BadgeLang,
+  (username: string, from: string, to: string, score: number) => string
+> = {
+  ja: (username, from, to, score) =>
+    `${username} さんの元気度が「${from}」から「${to}」に変わりました（スコア: ${score}）`,
+  en: (username, from, to, score) =>
+    `${username} is now "${to}" (was "${from}", score: ${score})`,
+};
+
+// ユーザーごとの通知の状態キー
+export function getNotificationStatusKey(username: string): string {
+  return `github-notify-status:${username.toLowerCase()}`;
+}
+
+// 通知の状態を取得
+export async function getNotificationStatus(
+  env: Env,
+  username: string,
+): Promise<NotificationStatus | null> {
+  return await env.AM_I_GENKI_CACHE.get(
+    getNotificationStatusKey(username),
+    "json",
+  ) as NotificationStatus | null;
+}
+
+// 通知する変化か判定
+export function isNotifiedTransition(
+  transition: StatusTransition,
+  rules: NotifyRule[],
+): boolean {
+  return rules.some((rule) =>
+    (rule.from === "*" || rule.from === transition.from) &&
+    (rule.to === "*" || rule.to === transition.to)
+  );
+}
+
+// 前回の通知からクールダウン中か判定
+export function isNotificationCoolingDown(
+  status: NotificationStatus | null,
+  cooldown: number,
+  now: Date = new Date(),
+): boolean {
+  if (!status?.lastNotified) return false;
+  return now.getTime() - new Date(status.lastNotified.at).getTime() <
+    cooldown * 1000;
+}
+
+// 通知先ごとのリクエストボディ
+function getNotifyPayload(
+  target: NotifyTarget,
+  config: Config,
+  transition: StatusTransition,
+  data: CacheData,
+): unknown {
+  const theme = resolveBadgeTheme(config.badgeTheme);
+  const score = data.score ?? data.commits;
+  const message = transitionMessages[theme.lang](
+    config.username,
+    getStatusText(theme, transition.from),
+    getStatusText(theme, transition.to),
+    score,
+  );
+
+  switch (target.type) {
+    case "slack":
+      return { text: message };
+    case "discord":
+      return { content: message, allowed_mentions: { parse: [] } };
+    case "webhook":
+      return {
+        event: "status_changed",
+        username: config.username,
+        from: transition.from,
+        to: transition.to,
+        score,
+        commits: data.commits,
+        lastUpdated: data.lastUpdated,
+        message,
+      };
+  }
+}
+
+// 記録・ログ用の通知先の表示（URLにはシークレットが含まれるためホスト名のみ）
+function describeTarget(target: NotifyTarget): string {
+  return `${target.type} (${new URL(target.url).host})`;
+}
+
+// 通知先への配信（失敗した場合は例外）
+async function sendNotification(
+  target: NotifyTarget,
+  body: unknown,
+): Promise<void> {
+  const response = await fetchWithRetry(
+    target.url,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Am-I-Genki-Badge-Service",
+      },
+      body: JSON.stringify(body),
+    },
+    NOTIFY_MAX_RETRIES,
+    NOTIFY_RETRY_DELAY,
+  );
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+// 元気度が変化した場合に通知先へ配信し、結果を通知の状態に記録
+// クールダウン中の変化・全ての通知先に届かなかった変化は保留し、次の更新で通知する
+// 一部のみ取得できたデータは実際より低く出ることがあるため、通知にも比較にも使わない
+export async function notifyStatusChange(
+  env: Env,
+  config: Config,
+  previous: CacheData | null,
+  data: CacheData,
+): Promise<void> {
+  const { targets, transitions, cooldown } = config.notify;
+  if (targets.length === 0 || data.partial) return;
+
+  const status: NotificationStatus =
+    await getNotificationStatus(env, config.username) ?? { failures: 0 };
+  const { pending, lastStatus } = status;
+  status.lastStatus = data.status;
+
+  // 保留中の変化があればその変化前（最後に通知した時点）、なければ最後に確認した元気度と比べる
+  const from = pending?.from ?? lastStatus ??
+    (previous && !previous.partial ? previous.status : undefined);
+  const transition: StatusTransition | null = from
+    ? { from, to: data.status }
+    : null;
+
+  if (
+    !transition || transition.from === transition.to ||
+    !isNotifiedTransition(transition, transitions)
+  ) {
+    // 元に戻った・通知しない変化になった保留は破棄
+    delete status.pending;
+    if (pending || lastStatus !== data.status) {
+      await saveNotificationStatus(env, config, status);
+    }
+    return;
+  }
+
+  const now = new Date();
+  if (isNotificationCoolingDown(status, cooldown, now)) {
+    if (pending?.to === transition.to) return;
+
+    console.log(
+      `Notification for ${config.username} (${transition.from} -> ${transition.to}) suppressed by cooldown`,
+    );
+    status.pending = {
+      ...transition,
+      reason: "cooldown",
+      at: now.toISOString(),
+    };
+  } else {
+    const results = await Promise.all(targets.map(async (target) => {
+      try {
+        await sendNotification(
+          target,
+          getNotifyPayload(target, config, transition, data),
+        );
+        return null;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(
+          `Failed to notify ${describeTarget(target)} for ${config.username}:`,
+          message,
+        );
+        return { target: describeTarget(target), message };
+      }
+    }));
+
+    const failed = results.filter((result) => result !== null);
+    if (failed.length < targets.length) {
+      status.lastNotified = { ...transition, at: now.toISOString() };
+      delete status.pending;
+    } else {
+      // どの通知先にも届かなかった変化は次の更新で送り直す
+      status.pending = {
+        ...transition,
+        reason: "failed",
+        at: now.toISOString(),
+      };
+    }
+    if (failed.length > 0) {
+      status.failures++;
+      status.lastError = { ...failed[0], at: now.toISOString() };
+    } else {
+      status.failures = 0;
+      delete status.lastError;
+    }
+  }
+
+  await saveNotificationStatus(env, config, status);
+}
+
+// 通知の状態を保存（クールダウンより先に消えないようにする）
+async function saveNotificationStatus(
+  env: Env,
+  config: Config,
+  status: NotificationStatus,
+) {
+  await env.AM_I_GENKI_CACHE.put(
+    getNotificationStatusKey(config.username),
+    JSON.stringify(status),
+    { expirationTtl: Math.max(config.notify.cooldown, NOTIFY_STATUS_TTL) },
+  );
+}
@@ -0,0 +1,121 @@
+import type { Env, RateLimitInfo, RequestBudget } from "./types";
+
+// KVに保存するレート制限情報のキー
+const RATE_LIMIT_KEY = "github-rate-limit";
+
+// レート制限待ちとして許容する最大時間（これを超える場合は待たずに諦める）
+export const MAX_RATE_LIMIT_WAIT = 10 * 1000;
+
+// リクエスト予算の作成（apiUrlはリソース種別の判定に使うGitHub APIのURL）
+export function createRequestBudget(
+  reserve: number,
+  apiUrl?: string,
+): RequestBudget {
+  return { reserve, apiUrl, resources: {}, limited: false };
+}
+
+// URLからレート制限のリソース種別を推定（GitHub APIのURLのパスを除いて判定する）
+export function getRateLimitResource(url: string, apiUrl?: string): string {
+  const { pathname } = new URL(url);
+  const prefix = apiUrl ? new URL(apiUrl).pathname.replace(/\/+$/, "") : "";
+
+  // GitHub EnterpriseのGraphQLは /api/v3 ではなく /api/graphql
+  const graphqlPrefix = prefix.replace(/\/v3$/, "");
+  if (pathname === `${graphqlPrefix}/graphql`) return "graphql";
+
+  const path = pathname.startsWith(prefix)
+    ? pathname.slice(prefix.length)
+    : pathname;
+  if (path.startsWith("/search/")) return "search";
+  return "core";
+}
+
+// レスポンスヘッダーからレート制限情報を記録
+export function recordRateLimit(
+  budget: RequestBudget,
+  response: Response,
+  fallbackResource: string,
+) {
+  const remaining = response.headers.get("x-ratelimit-remaining");
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (remaining === null || reset === null) return;
+
+  const resource = response.headers.get("x-ratelimit-resource") ??
+    fallbackResource;
+  budget.resources[resource] = {
+    remaining: parseInt(remaining),
+    reset: parseInt(reset),
+  };
+}
+
+// 残りリクエスト数に余裕があるか（不明な場合は余裕ありとみなす）
+export function hasBudget(
+  budget: RequestBudget,
+  resource: string,
+  cost: number = 1,
+): boolean {
+  const info = budget.resources[resource];
+  if (!info) return true;
+
+  // リセット時刻を過ぎていれば回復している
+  if (info.reset * 1000 <= Date.now()) return true;
+
+  return info.remaining - cost >= budget.reserve;
+}
+
+// スロットリングによるレスポンスか判定
+// 403はレート制限のヘッダーがある場合のみスロットリングとみなし、それ以外は権限エラー
+export function isRateLimited(response: Response): boolean {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+
+  return response.headers.get("x-ratelimit-remaining") === "0" ||
+    response.headers.has("retry-after");
+}
+
+// レート制限解除までの待ち時間（ミリ秒、不明な場合はnull）
+export function getRateLimitWait(response: Response): number | null {
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter) {
+    return parseInt(retryAfter) * 1000;
+  }
+
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (response.headers.get("x-ratelimit-remaining") === "0" && reset) {
+    return Math.max(parseInt(reset) * 1000 - Date.now(), 0);
+  }
+
+  return null;
+}
+
+// KVに保存されたレート制限情報を読み込む（リセット済みのものは無視）
+export async function loadRateLimit(env: Env, budget: RequestBudget) {
+  const stored = await env.AM_I_GENKI_CACHE.get(RATE_LIMIT_KEY, "json") as
+    | Record<string, RateLimitInfo>
+    | null;
+  if (!stored) return;
+
+  const now = Date.now();
+  for (const [resource, info] of Object.entries(stored)) {
+    if (info.reset * 1000 > now && !budget.resources[resource]) {
+      budget.resources[resource] = info;
+    }
+  }
+}
+
+// レート制限情報をKVに保存（リセット時刻まで保持）
+export async function saveRateLimit(env: Env, budget: RequestBudget) {
+  const now = Date.now();
+  const active = Object.entries(budget.resources)
+    .filter(([, info]) => info.reset * 1000 > now);
+  if (active.length === 0) return;
+
+  const latestReset = Math.max(...active.map(([, info]) => info.reset));
+
+  // KVのTTLは60秒以上が必要
+  await env.AM_I_GENKI_CACHE.put(
+    RATE_LIMIT_KEY,
+    JSON.stringify(Object.fromEntries(active)),
+    { expirationTtl: Math.max(latestReset - Math.floor(now / 1000), 60) },
+  );
+}
@@ -0,0 +1,128 @@
+import type {
+  Config,
+  Env,
+  TeamConfig,
+  TeamHealth,
+  TeamMemberHealth,
+} from "./types";
+import { getCacheData, getCacheKey } from "./cache";
+import { getOrgTeamMembers } from "./github";
+import {
+  getHealthStatus,
+  getScheduledUsernames,
+  isBotAccount,
+  isValidUsername,
+} from "./utils";
+
+// Organizationチームのメンバーキャッシュのキー
+function getTeamMembersKey(org: string, slug: string): string {
+  return `github-team-members:${org.toLowerCase()}/${slug.toLowerCase()}`;
+}
+
+// チームメンバーの解決（Organizationチームのメンバー一覧はキャッシュする）
+export async function getTeamMembers(
+  env: Env,
+  config: Config,
+  team: TeamConfig,
+): Promise<string[]> {
+  let members = team.members;
+
+  if (team.orgTeam) {
+    const { org, slug } = team.orgTeam;
+    const key = getTeamMembersKey(org, slug);
+    const cached = await env.AM_I_GENKI_CACHE.get(key, "json") as
+      | string[]
+      | null;
+
+    if (cached) {
+      members = cached;
+    } else {
+      members = await getOrgTeamMembers(org, slug, config);
+      await env.AM_I_GENKI_CACHE.put(key, JSON.stringify(members), {
+        expirationTtl: config.cacheTTL,
+      });
+    }
+  }
+
+  // 不正なユーザー名・Botを除外して重複を取り除く
+  const seen = new Set<string>();
+  return members.filter((member) => {
+    const key = member.toLowerCase();
+    if (
+      !isValidUsername(member) ||
+      isBotAccount(
+        member,
+        undefined,
+        undefined,
+        config.commitFilter.botPatterns,
+      ) ||
+      seen.has(key)
+    ) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// チーム全体の元気度の集計
+// メンバーごとのキャッシュを使い、スコアの平均をチーム用のしきい値で判定する
+export async function getTeamHealth(
+  env: Env,
+  ctx: ExecutionContext,
+  config: Config,
+  team: TeamConfig,
+): Promise<TeamHealth> {
+  const members = await getTeamMembers(env, config, team);
+  const scheduledUsernames = getScheduledUsernames(config);
+  const results: TeamMemberHealth[] = [];
+
+  // キャッシュがないメンバーはGitHub APIを呼ぶため順番に処理
+  for (const username of members) {
+    try {
+      const data = await getCacheData(
+        env,
+        ctx,
+        { ...config, username },
+        getCacheKey(username),
+        scheduledUsernames,
+      );
+      results.push({
+        username,
+        status: data.status,
+        score: data.score ?? data.commits,
+        commits: data.commits,
+        lastUpdated: data.lastUpdated,
+      });
+    } catch (error) {
+      console.error(`Error fetching team member ${username}:`, error);
+      results.push({
+        username,
+        status: null,
+        score: null,
+        commits: null,
+        lastUpdated: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const scores = results
+    .map((member) => member.score)
+    .filter((score): score is number => score !== null);
+  const average = scores.length > 0
+    ? scores.reduce((total, score) => total + score, 0) / scores.length
+    : 0;
+  const score = Math.round(average * 10) / 10;
+
+  return {
+    name: team.name,
+    score,
+    status: getHealthStatus(
+      score,
+      config.teamHealthyThreshold,
+      config.teamModerateThreshold,
+    ),
+    members: results,
+  };
+}
@@ -5,23 +5,150 @@ export interface Env {
   MODERATE_THRESHOLD?: string;
   MONITORING_DAYS?: string;
   CACHE_TTL?: string;
-  JST_UPDATE_HOUR?: string;
+  JST_UPDATE_HOUR?: string; // UPDATE_HOURの旧名（後方互換）
+  UPDATE_HOUR?: string;
+  UPDATE_TIMEZONE?: string;
   GITHUB_TOKEN?: string;
   INCLUDE_ORG_REPOS?: string;
+  INCLUDE_PRIVATE_REPOS?: string;
   MAX_REPOS_PER_ORG?: string;
   EXCLUDE_REPOS?: string;
   EXCLUDE_ORGS?: string;
+  BOT_PATTERNS?: string;
+  AUTHOR_EMAILS?: string;
+  COUNT_CO_AUTHORED?: string;
+  COUNT_MERGE_COMMITS?: string;
+  ALLOWED_USERNAMES?: string;
+  COMMIT_DATA_SOURCE?: string;
+  WEIGHT_COMMITS?: string;
+  WEIGHT_PULL_REQUESTS?: string;
+  WEIGHT_MERGED_PULL_REQUESTS?: string;
+  WEIGHT_REVIEWS?: string;
+  WEIGHT_ISSUES?: string;
+  WEIGHT_COMMENTS?: string;
+  HISTORY_DAYS?: string;
+  SCHEDULED_REFRESH?: string;
+  BADGE_LABEL?: string;
+  BADGE_LANG?: string;
+  BADGE_HIDE_COUNT?: string;
+  RECENCY_HALF_LIFE?: string;
+  BADGE_HEALTHY_COLOR?: string;
+  BADGE_HEALTHY_TEXT?: string;
+  BADGE_HEALTHY_EMOJI?: string;
+  BADGE_MODERATE_COLOR?: string;
+  BADGE_MODERATE_TEXT?: string;
+  BADGE_MODERATE_EMOJI?: string;
+  BADGE_INACTIVE_COLOR?: string;
+  BADGE_INACTIVE_TEXT?: string;
+  BADGE_INACTIVE_EMOJI?: string;
+  RATE_LIMIT_RESERVE?: string;
+  MAX_REPOS?: string;
+  MAX_COMMITS_PER_REPO?: string;
+  TEAMS?: string;
+  TEAM_HEALTHY_THRESHOLD?: string;
+  TEAM_MODERATE_THRESHOLD?: string;
+  GITHUB_WEBHOOK_SECRET?: string;
+  ADMIN_TOKEN?: string;
+  GITHUB_API_URL?: string;
+  GITLAB_URL?: string;
+  GITLAB_USERNAME?: string;
+  GITLAB_TOKEN?: string;
+  GITEA_URL?: string;
+  GITEA_USERNAME?: string;
+  GITEA_TOKEN?: string;
+  NOTIFY_TARGETS?: string;
+  NOTIFY_TRANSITIONS?: string;
+  NOTIFY_COOLDOWN?: string;
   AM_I_GENKI_CACHE: KVNamespace;
 }
 
+// キャッシュ更新の状態
+export interface RefreshStatus {
+  lastAttemptAt: string;
+  lastSuccessAt?: string;
+  // 直近の失敗（成功すると消える）
+  lastError?: { message: string; at: string };
+  failures: number; // 連続で失敗した回数
+  retryAfter?: string; // この日時までは自動で更新しない
+}
+
+// 元気度の変化の通知の状態
+export interface NotificationStatus {
+  // 最後に通知した変化（いずれかの通知先に届いたもの）
+  lastNotified?: StatusTransition & { at: string };
+  // 保留している変化（最後に通知した元気度から現在の元気度、次の更新で通知する）
+  // cooldown: クールダウン中のため保留、failed: どの通知先にも届かなかった
+  pending?: StatusTransition & { reason: "cooldown" | "failed"; at: string };
+  // 最後に確認した元気度（一部のみ取得できたデータは含まない）
+  lastStatus?: HealthStatus;
+  // 直近の配信の失敗（全ての通知先に届くと消える）
+  lastError?: { target: string; message: string; at: string };
+  failures: number; // 連続で配信に失敗した回数
+}
+
 // キャッシュデータの型定義
 export interface CacheData {
   commits: number;
   status: "healthy" | "moderate" | "inactive";
   lastUpdated: string;
   sources: { owned: number; org: number };
+  // 種類別の活動量と重み付けスコア（旧キャッシュには存在しない）
+  activity?: ActivityBreakdown;
+  score?: number;
+  // レート制限により一部のデータを取得できなかった場合はtrue
+  partial?: boolean;
+  // 取得件数の上限に達した場合はtrue（実際の値はこれ以上）
+  truncated?: boolean;
+  // Webhookで最後に加算した日時
+  lastWebhookAt?: string;
+  // リポジトリごとのコミット数（旧キャッシュには存在しない）
+  repos?: RepoCommits;
+  // 非公開リポジトリのコミット数の合計（リポジトリ名はreposに含めない）
+  privateCommits?: number;
+  // 日ごとのコミット数と連続記録（旧キャッシュには存在しない）
+  daily?: DailyCommits;
+  streak?: StreakInfo;
+}
+
+// 日付（YYYY-MM-DD、UPDATE_TIMEZONE基準）ごとのコミット数
+export type DailyCommits = Record<string, number>;
+
+// 監視期間内のコミットの連続記録
+export interface StreakInfo {
+  current: number; // 今日（今日まだコミットがない場合は昨日）までの連続日数
+  longest: number; // 監視期間内の最長連続日数
+  lastCommitDate: string | null; // 最後にコミットした日（監視期間内になければnull）
+}
+
+// 現在の日付に合わせた連続記録
+export interface CurrentStreak extends StreakInfo {
+  daysSinceLastCommit: number | null; // 最後のコミットからの日数（今日なら0）
 }
 
+// 日ごとの履歴データ
+export interface HistoryEntry {
+  date: string; // YYYY-MM-DD（UPDATE_TIMEZONE基準）
+  commits: number;
+  score: number;
+  status: HealthStatus;
+}
+
+// 種類別の活動量
+export interface ActivityBreakdown {
+  commits: number;
+  pullRequests: number;
+  mergedPullRequests: number;
+  reviews: number;
+  issues: number;
+  comments: number;
+}
+
+// 活動の種類
+export type ActivityKind = keyof ActivityBreakdown;
+
+// 活動の種類ごとの重み
+export type ActivityWeights = Record<ActivityKind, number>;
+
 // 設定の型定義
 export interface Config {
   username: string;
@@ -29,27 +156,260 @@ export interface Config {
   moderateThreshold: number;
   monitoringDays: number;
   cacheTTL: number;
-  jstUpdateHour: number;
+  updateHour: number;
+  timezone: string;
   githubToken?: string;
+  githubApiUrl: string; // GitHub Enterpriseの場合は https://ホスト名/api/v3
+  forges: ForgeInstance[]; // GitHub以外の集計対象のフォージ
   includeOrgRepos: boolean;
+  includePrivateRepos: boolean; // 非公開リポジトリのコミットも数える（名前は記録しない）
   maxReposPerOrg: number;
+  maxRepos: number;
+  maxCommitsPerRepo: number;
+  teams: TeamConfig[];
+  teamHealthyThreshold: number;
+  teamModerateThreshold: number;
+  webhookSecret?: string;
+  adminToken?: string;
   excludeRepos: string[];
   excludeOrgs: string[];
+  commitFilter: CommitFilter;
+  allowedUsernames: string[];
+  commitDataSource: CommitDataSource;
+  activityWeights: ActivityWeights;
+  historyDays: number;
+  scheduledRefresh: boolean;
+  badgeTheme: BadgeThemeInput;
+  rateLimitReserve: number;
+  recencyHalfLife: number; // コミットの重みが半減する日数（0なら減衰なし）
+  notify: NotifyConfig;
+}
+
+// 通知先の種類
+export const VALID_NOTIFY_TARGET_TYPES = [
+  "webhook",
+  "slack",
+  "discord",
+] as const;
+
+export type NotifyTargetType = typeof VALID_NOTIFY_TARGET_TYPES[number];
+
+// 通知先
+export interface NotifyTarget {
+  type: NotifyTargetType;
+  url: string;
+}
+
+// 元気度の変化
+export interface StatusTransition {
+  from: HealthStatus;
+  to: HealthStatus;
+}
+
+// 通知する変化（"*"はすべてのステータスに一致）
+export interface NotifyRule {
+  from: HealthStatus | "*";
+  to: HealthStatus | "*";
+}
+
+// 元気度の変化の通知の設定
+export interface NotifyConfig {
+  targets: NotifyTarget[];
+  transitions: NotifyRule[]; // 通知する変化
+  cooldown: number; // 前回の通知からこの秒数の間は通知しない
+}
+
+// チームの定義（メンバーの列挙またはGitHubのOrganizationチーム）
+export interface TeamConfig {
+  name: string;
+  members: string[];
+  orgTeam?: { org: string; slug: string };
+}
+
+// チームメンバーごとの元気度
+export interface TeamMemberHealth {
+  username: string;
+  status: HealthStatus | null;
+  score: number | null;
+  commits: number | null;
+  lastUpdated: string | null;
+  error?: string;
+}
+
+// チーム全体の元気度
+export interface TeamHealth {
+  name: string;
+  score: number;
+  status: HealthStatus;
+  members: TeamMemberHealth[];
+}
+
+// コミット数の取得元
+export type CommitDataSource = "rest" | "graphql";
+
+// コミット数の集計結果
+export interface CommitCountResult {
+  commits: number;
+  sources: { owned: number; org: number };
+  repos: RepoCommits; // 公開リポジトリのみ
+  privateCommits: number;
+  daily: DailyCommits;
+  truncated: boolean;
+  partial?: boolean; // 一部のフォージ・リポジトリの一覧を取得できなかった場合はtrue
+}
+
+// リポジトリごとのコミット数（フォージ共通、sumRepoCountsで合算する）
+export interface RepoCount {
+  name: string; // owner/repo（GitHub以外はホスト名付き）
+  isOwned: boolean;
+  isPrivate: boolean;
+  commits: number;
+  days: DailyCommits;
+  truncated: boolean;
+}
+
+// コミットを集計するフォージの種類
+export type ForgeType = "github" | "gitlab" | "gitea";
+
+// GitHub以外のフォージの設定
+export interface ForgeInstance {
+  type: Exclude<ForgeType, "github">;
+  baseUrl: string;
+  token?: string;
+  // GitHubのユーザー名（小文字）ごとのこのフォージでのユーザー名
+  usernames: Record<string, string>;
+}
+
+// フォージ上のアカウント
+export interface ForgeAccount {
+  type: ForgeType;
+  baseUrl: string;
+  username: string; // フォージでのユーザー名
+  githubUsername: string; // 集計対象のユーザー（GitHubのユーザー名）
+  token?: string;
+}
+
+// コミット数を集計するフォージの実装
+export interface ForgeProvider {
+  countCommits(
+    account: ForgeAccount,
+    monitoringDays: number,
+    config: Config,
+    options: { budget?: RequestBudget; cursors?: RepoCursors },
+  ): Promise<CommitCountResult>;
+}
+
+// リポジトリ（owner/repo）ごとのコミット数
+export type RepoCommits = Record<string, number>;
+
+// コミット数の多いリポジトリ
+export interface TopRepo {
+  name: string; // owner/repo
+  commits: number;
+}
+
+// リポジトリごとの増分集計の状態
+export interface RepoCursor {
+  checkedAt: string; // 最後にコミットを取得した日時
+  coveredFrom: string; // この日時以降のコミットは記録済み
+  days: Record<string, string[]>; // 日付ごとのコミットSHA
+  // 上限により取得できなかったコミットがこの日付以前に残っている
+  truncatedUntil?: string;
+  filter?: string; // 記録時のコミットの判定条件（変更されたら取り直す）
+}
+
+// 設定値の検証エラーの種類
+export type ConfigErrorCode =
+  | "required" // 必須の値が未設定
+  | "invalid_number" // 数値として解釈できない
+  | "out_of_range" // 範囲外の数値
+  | "invalid_value" // 形式・選択肢が不正
+  | "invalid_order"; // 他の値との大小関係が不正
+
+// 設定値の検証エラー（不正な値はデフォルト値で置き換えられる）
+export interface ConfigError {
+  key: string; // 環境変数名
+  code: ConfigErrorCode;
+  message: string;
+  value?: string;
+}
+
+// 設定値の読み込み結果
+export interface ConfigResult {
+  config: Config;
+  errors: ConfigError[];
+}
+
+// GitHubトークンの確認結果
+export interface TokenCheck {
+  configured: boolean;
+  valid?: boolean;
+  login?: string;
+  scopes?: string[] | null; // Fine-grainedトークンはスコープを返さないためnull
+  orgAccess?: {
+    ok: boolean;
+    status: number;
+    orgs?: number; // 取得できた所属組織の数
+  };
+  checkedAt: string;
+}
+
+// コミットの作者情報
+export interface CommitAuthor {
+  login?: string;
+  name?: string;
+  email?: string;
+}
+
+// コミットの判定条件
+export interface CommitFilter {
+  botPatterns: string[]; // 追加のBot判定パターン
+  authorEmails: Record<string, string[]>; // ユーザーごとの本人のメールアドレス
+  countCoAuthored: boolean; // Co-authored-byで共著者となったコミットも数える
+  countMergeCommits: boolean; // マージコミットも数える
+}
+
+// ユーザーごとの増分集計の状態（キーはowner/repo）
+export type RepoCursors = Record<string, RepoCursor>;
+
+// GitHub APIのレート制限情報
+export interface RateLimitInfo {
+  remaining: number;
+  reset: number; // UNIX時間（秒）
+}
+
+// 1回の更新処理で共有するリクエスト予算
+export interface RequestBudget {
+  // この数を下回るまでリクエストを残す
+  reserve: number;
+  // GitHub APIのURL（GITHUB_API_URL、リソース種別の判定に使う）
+  apiUrl?: string;
+  // リソース種別（core/search/graphql）ごとのレート制限情報
+  resources: Record<string, RateLimitInfo>;
+  // レート制限により取得を打ち切った場合はtrue
+  limited: boolean;
 }
 
 // GitHub APIレスポンスの型定義
 export interface GitHubRepo {
   name: string;
+  private?: boolean;
   updated_at: string;
+  pushed_at?: string;
 }
 
 export interface GitHubCommit {
+  sha: string;
   author?: { login: string };
   commit: {
     author: {
       name: string;
       email: string;
     };
+    message: string;
+    committer: {
+      date: string;
+    };
   };
   parents: Array<{ sha: string }>;
 }
@@ -58,6 +418,114 @@ export interface GitHubOrg {
   login: string;
 }
 
+export interface GitHubUser {
+  login: string;
+}
+
+export interface GitHubSearchResponse {
+  total_count: number;
+}
+
+// GitHub Webhookのpushイベントの型定義
+export interface GitHubPushEvent {
+  ref: string;
+  repository: {
+    name: string;
+    private: boolean;
+    default_branch: string;
+    owner: { login: string; type: "User" | "Organization" };
+  };
+  commits: Array<{
+    id: string;
+    distinct: boolean;
+    message: string;
+    timestamp: string;
+    author: { name: string; email: string; username?: string };
+  }>;
+}
+
+// GitLab APIレスポンスの型定義
+export interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+  public_email?: string | null;
+}
+
+export interface GitLabEvent {
+  project_id: number;
+  created_at: string;
+}
+
+export interface GitLabProject {
+  id: number;
+  path: string;
+  path_with_namespace: string;
+  visibility?: "public" | "internal" | "private";
+  namespace: { path: string; full_path: string; kind: "user" | "group" };
+}
+
+export interface GitLabCommit {
+  id: string;
+  author_name: string;
+  author_email: string;
+  committed_date: string;
+  message: string;
+  parent_ids: string[];
+}
+
+// Gitea・Forgejo APIレスポンスの型定義
+export interface GiteaUser {
+  id: number;
+  login: string;
+  full_name: string;
+  email?: string;
+}
+
+export interface GiteaOrg {
+  username: string;
+}
+
+export interface GiteaRepo {
+  name: string;
+  private: boolean;
+  owner: { login: string };
+  updated_at: string;
+}
+
+export interface GiteaCommit {
+  sha: string;
+  author?: { login: string } | null;
+  commit: {
+    author: { name: string; email: string };
+    committer: { date: string };
+    message: string;
+  };
+  parents: Array<{ sha: string }>;
+}
+
+// GitHub GraphQL APIレスポンスの型定義
+export interface GitHubContributionsResponse {
+  data?: {
+    user: {
+      contributionsCollection: {
+        commitContributionsByRepository: Array<{
+          repository: {
+            name: string;
+            owner: { login: string };
+            isPrivate: boolean;
+          };
+          contributions: {
+            totalCount: number;
+            nodes: Array<{ occurredAt: string; commitCount: number }>;
+          };
+        }>;
+      };
+    } | null;
+  };
+  errors?: Array<{ message: string }>;
+}
+
 // バッジスタイルの型定義
 export const VALID_BADGE_STYLES = [
   "flat",
@@ -69,6 +537,77 @@ export const VALID_BADGE_STYLES = [
 
 export type BadgeStyle = typeof VALID_BADGE_STYLES[number];
 
+// バッジの表示言語
+export const VALID_BADGE_LANGS = ["ja", "en"] as const;
+
+export type BadgeLang = typeof VALID_BADGE_LANGS[number];
+
+// ステータスごとの見た目
+export interface StatusAppearance {
+  color: string;
+  text: string;
+  emoji: string;
+}
+
+// バッジのテーマ（検証・既定値適用済み）
+export interface BadgeTheme {
+  label: string;
+  lang: BadgeLang;
+  hideCount: boolean;
+  statuses: Record<HealthStatus, StatusAppearance>;
+}
+
+// バッジテーマの指定値（環境変数・クエリパラメータの未検証の値）
+export interface BadgeThemeInput {
+  label?: string;
+  lang?: string;
+  hideCount?: string;
+  healthyColor?: string;
+  healthyText?: string;
+  healthyEmoji?: string;
+  moderateColor?: string;
+  moderateText?: string;
+  moderateEmoji?: string;
+  inactiveColor?: string;
+  inactiveText?: string;
+  inactiveEmoji?: string;
+}
+
+// バッジの表示内容
+export interface BadgeContent {
+  label: string;
+  message: string;
+  color: string;
+}
+
+// バッジの出力形式
+export type BadgeFormat = "svg" | "json" | "png";
+
+// shields.ioのエンドポイントバッジのスキーマ
+export interface ShieldsEndpoint {
+  schemaVersion: 1;
+  label: string;
+  message: string;
+  color: string;
+  style?: BadgeStyle;
+  cacheSeconds?: number;
+}
+
+// トレンドバッジの表示形式
+export const VALID_TREND_TYPES = ["sparkline", "heatmap"] as const;
+
+export type TrendType = typeof VALID_TREND_TYPES[number];
+
+// バッジの表示内容（元気度・連続日数・最後のコミットからの日数）
+export const VALID_BADGE_MODES = ["status", "streak", "last-active"] as const;
+
+export type BadgeMode = typeof VALID_BADGE_MODES[number];
+
+// プロフィールカードの配色（autoはprefers-color-schemeに従う）
+export const VALID_CARD_COLOR_SCHEMES = ["auto", "light", "dark"] as const;
+
+export type CardColorScheme = typeof VALID_CARD_COLOR_SCHEMES[number];
+
 // 元気度ステータスの型定義
 export type HealthStatus = "healthy" | "moderate" | "inactive";
 
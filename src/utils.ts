@@ -1,45 +1,95 @@
-import type { Env, Config, HealthStatus } from "./types";
+import type {
+  ActivityBreakdown,
+  ActivityKind,
+  ActivityWeights,
+  CommitAuthor,
+  Config,
+  CurrentStreak,
+  DailyCommits,
+  HealthStatus,
+  RepoCommits,
+  RequestBudget,
+  StreakInfo,
+  TopRepo,
+} from "./types";
+import {
+  getRateLimitResource,
+  getRateLimitWait,
+  hasBudget,
+  isRateLimited,
+  MAX_RATE_LIMIT_WAIT,
+  recordRateLimit,
+} from "./ratelimit";
 
-// 設定値の取得
-export function getConfig(env: Env): Config {
-  return {
-    username: env.GITHUB_USERNAME,
-    healthyThreshold: parseInt(env.HEALTHY_THRESHOLD || "15"),
-    moderateThreshold: parseInt(env.MODERATE_THRESHOLD || "5"),
-    monitoringDays: parseInt(env.MONITORING_DAYS || "14"),
-    cacheTTL: parseInt(env.CACHE_TTL || "86400"),
-    jstUpdateHour: parseInt(env.JST_UPDATE_HOUR || "8"),
-    githubToken: env.GITHUB_TOKEN,
-    includeOrgRepos: env.INCLUDE_ORG_REPOS === "true",
-    maxReposPerOrg: parseInt(env.MAX_REPOS_PER_ORG || "5"),
-    excludeRepos: env.EXCLUDE_REPOS
-      ? env.EXCLUDE_REPOS.split(",").map((repo) => repo.trim())
-      : ["dotfiles"],
-    excludeOrgs: env.EXCLUDE_ORGS
-      ? env.EXCLUDE_ORGS.split(",").map((org) => org.trim())
-      : [],
-  };
+// 定期更新の対象ユーザー（デフォルトユーザー・許可リスト・チームメンバー）
+export function getScheduledUsernames(config: Config): string[] {
+  const usernames = [
+    config.username,
+    ...config.allowedUsernames,
+    ...config.teams.flatMap((team) => team.members),
+  ].filter((username) => !!username);
+  const seen = new Set<string>();
+
+  return usernames.filter((username) => {
+    const key = username.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// GitHubユーザー名として妥当な形式か判定
+export function isValidUsername(username: string): boolean {
+  return /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i.test(username);
+}
+
+// バッジ生成を許可されたユーザーか判定
+// 許可リストが未設定の場合は全ユーザーを許可し、デフォルトユーザーは常に許可する
+export function isAllowedUser(username: string, config: Config): boolean {
+  const target = username.toLowerCase();
+  if (config.username && config.username.toLowerCase() === target) {
+    return true;
+  }
+  if (config.allowedUsernames.length === 0) return true;
+
+  return config.allowedUsernames.some((user) => user.toLowerCase() === target);
 }
 
 // リトライ付きfetch関数
+// budgetを渡すとレート制限を記録し、残りが少ない場合はリクエストしない
 export async function fetchWithRetry(
   url: string,
   options: RequestInit,
   maxRetries: number = 3,
   initialDelay: number = 1000,
+  budget?: RequestBudget,
 ): Promise<Response> {
   let lastError: Error | null = null;
+  const resource = getRateLimitResource(url, budget?.apiUrl);
+
+  if (budget && !hasBudget(budget, resource)) {
+    budget.limited = true;
+    throw new Error(`Rate limit budget exhausted for ${resource}`);
+  }
 
   for (let i = 0; i < maxRetries; i++) {
     try {
       const response = await fetch(url, options);
+      if (budget) {
+        recordRateLimit(budget, response, resource);
+      }
+
+      // レート制限のチェック（権限エラーの403はそのまま返す）
+      if (isRateLimited(response)) {
+        const waitTime = getRateLimitWait(response) ??
+          initialDelay * Math.pow(2, i);
 
-      // レート制限のチェック
-      if (response.status === 429 || response.status === 403) {
-        const retryAfter = response.headers.get("retry-after");
-        const waitTime = retryAfter
-          ? parseInt(retryAfter) * 1000
-          : initialDelay * Math.pow(2, i);
+        // 解除まで長時間かかる場合や最後の試行では待たずに諦める
+        if (waitTime > MAX_RATE_LIMIT_WAIT || i === maxRetries - 1) {
+          console.warn(`Rate limited for ${waitTime}ms. Giving up ${url}`);
+          if (budget) budget.limited = true;
+          return response;
+        }
 
         console.warn(`Rate limited. Waiting ${waitTime}ms before retry...`);
         await new Promise((resolve) => setTimeout(resolve, waitTime));
@@ -69,8 +119,53 @@ export async function fetchWithRetry(
     new Error(`Failed to fetch ${url} after ${maxRetries} retries`);
 }
 
-// Botアカウントかどうかを判定
-export function isBotAccount(login?: string, name?: string, email?: string): boolean {
+// パターンを正規表現に変換（"/.../"は正規表現、それ以外は*と?のグロブ）
+export function compilePattern(pattern: string): RegExp | null {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+
+  try {
+    if (regex) {
+      const flags = regex[2].includes("i") ? regex[2] : `${regex[2]}i`;
+      return new RegExp(regex[1], flags);
+    }
+
+    const source = pattern
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, ".*")
+      .replace(/\?/g, ".");
+    return new RegExp(`^${source}$`, "i");
+  } catch {
+    return null;
+  }
+}
+
+// いずれかのパターンに一致するか判定（大文字小文字は区別しない）
+export function matchesPattern(value: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => compilePattern(pattern)?.test(value));
+}
+
+// 除外対象のリポジトリか判定（リポジトリ名とowner/repoの両方で照合）
+export function isExcludedRepo(
+  owner: string,
+  repoName: string,
+  config: Config,
+): boolean {
+  return matchesPattern(repoName, config.excludeRepos) ||
+    matchesPattern(`${owner}/${repoName}`, config.excludeRepos);
+}
+
+// 除外対象の組織か判定
+export function isExcludedOrg(org: string, config: Config): boolean {
+  return matchesPattern(org, config.excludeOrgs);
+}
+
+// Botアカウントかどうかを判定（extraPatternsはBOT_PATTERNSで追加したパターン）
+export function isBotAccount(
+  login?: string,
+  name?: string,
+  email?: string,
+  extraPatterns: string[] = [],
+): boolean {
   if (!login && !name && !email) return false;
 
   const botIndicators = [
@@ -89,20 +184,274 @@ export function isBotAccount(login?: string, name?: string, email?: string): boo
 
   const checkString = `${login || ""} ${name || ""} ${email || ""}`
     .toLowerCase();
-  return botIndicators.some((pattern) => pattern.test(checkString));
+  if (botIndicators.some((pattern) => pattern.test(checkString))) return true;
+
+  return [login, name, email].some((value) =>
+    value !== undefined && matchesPattern(value, extraPatterns)
+  );
+}
+
+// GitHubのnoreplyメールアドレスからユーザー名を取得
+export function getNoreplyLogin(email: string): string | null {
+  const match = email.match(
+    /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i,
+  );
+  return match ? match[1] : null;
+}
+
+// コミットメッセージのCo-authored-byトレーラーから共著者のメールアドレスを取得
+export function getCoAuthorEmails(message: string): string[] {
+  return [...message.matchAll(/^co-authored-by:[^<\n]*<([^>\n]+)>\s*$/gim)]
+    .map((match) => match[1].trim().toLowerCase());
+}
+
+// ユーザー本人として登録されたメールアドレス
+export function getAuthorEmails(username: string, config: Config): string[] {
+  return config.commitFilter.authorEmails[username.toLowerCase()] ?? [];
+}
+
+// ユーザー本人の作者情報か判定（ユーザー名・noreplyアドレス・登録済みのメールアドレス）
+function isUserIdentity(
+  username: string,
+  login: string | undefined,
+  email: string | undefined,
+  config: Config,
+): boolean {
+  const target = username.toLowerCase();
+  if (login?.toLowerCase() === target) return true;
+  if (!email) return false;
+
+  return getNoreplyLogin(email)?.toLowerCase() === target ||
+    getAuthorEmails(username, config).includes(email.toLowerCase());
+}
+
+// 集計対象のコミットか判定（isAuthorで作者がユーザー本人か判定する）
+// Botのコミットを除外し、マージコミット・共著のコミットは設定に従って数える
+export function isTargetCommit(
+  commit: CommitAuthor & { message?: string; isMerge: boolean },
+  isAuthor: (author: CommitAuthor) => boolean,
+  config: Config,
+): boolean {
+  const filter = config.commitFilter;
+  if (
+    isBotAccount(commit.login, commit.name, commit.email, filter.botPatterns)
+  ) {
+    return false;
+  }
+  if (commit.isMerge && !filter.countMergeCommits) return false;
+  if (isAuthor(commit)) return true;
+
+  return filter.countCoAuthored &&
+    getCoAuthorEmails(commit.message ?? "").some((email) =>
+      isAuthor({ email })
+    );
+}
+
+// GitHubユーザー本人の集計対象のコミットか判定
+export function isUserCommit(
+  username: string,
+  commit: CommitAuthor & { message?: string; isMerge: boolean },
+  config: Config,
+): boolean {
+  return isTargetCommit(
+    commit,
+    (author) => isUserIdentity(username, author.login, author.email, config),
+    config,
+  );
+}
+
+// コミット数の多い順のリポジトリ一覧（同数の場合は名前順）
+export function getTopRepos(repos: RepoCommits, limit?: number): TopRepo[] {
+  return Object.entries(repos)
+    .map(([name, commits]) => ({ name, commits }))
+    .sort((a, b) => b.commits - a.commits || a.name.localeCompare(b.name))
+    .slice(0, limit);
 }
 
-// 元気度の判定
+// 元気度の判定（重み付けスコアをしきい値と比較）
 export function getHealthStatus(
-  commits: number,
+  score: number,
   healthyThreshold: number,
   moderateThreshold: number,
 ): HealthStatus {
-  if (commits >= healthyThreshold) {
+  if (score >= healthyThreshold) {
     return "healthy";
-  } else if (commits >= moderateThreshold) {
+  } else if (score >= moderateThreshold) {
     return "moderate";
   } else {
     return "inactive";
   }
-}
\ No newline at end of file
+}
+
+// 重み付けされた活動スコアの計算（小数第1位まで）
+export function calculateActivityScore(
+  activity: ActivityBreakdown,
+  weights: ActivityWeights,
+): number {
+  const score = (Object.keys(weights) as ActivityKind[]).reduce(
+    (total, kind) => total + activity[kind] * weights[kind],
+    0,
+  );
+  return Math.round(score * 10) / 10;
+}
+
+// 日ごとのコミット数の合算
+export function mergeDailyCommits(...days: DailyCommits[]): DailyCommits {
+  const merged: DailyCommits = {};
+  for (const daily of days) {
+    for (const [date, count] of Object.entries(daily)) {
+      merged[date] = (merged[date] ?? 0) + count;
+    }
+  }
+  return merged;
+}
+
+// 日付文字列（YYYY-MM-DD）間の日数
+export function getDaysBetween(from: string, to: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((Date.parse(to) - Date.parse(from)) / msPerDay);
+}
+
+// 日ごとのコミット数から連続記録を計算
+// 今日まだコミットがない場合は昨日までの連続日数を現在の記録とする
+export function calculateStreak(
+  daily: DailyCommits,
+  timezone: string,
+  now: Date = new Date(),
+): StreakInfo {
+  const dates = Object.keys(daily).filter((date) => daily[date] > 0).sort();
+  if (dates.length === 0) {
+    return { current: 0, longest: 0, lastCommitDate: null };
+  }
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < dates.length; i++) {
+    run = getDaysBetween(dates[i - 1], dates[i]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const lastCommitDate = dates[dates.length - 1];
+  const today = toDateString(now, timezone);
+  return {
+    current: getDaysBetween(lastCommitDate, today) <= 1 ? run : 0,
+    longest,
+    lastCommitDate,
+  };
+}
+
+// 記録時点の連続記録を現在の日付に合わせる（最後のコミットからの日数も求める）
+export function getCurrentStreak(
+  streak: StreakInfo,
+  timezone: string,
+  now: Date = new Date(),
+): CurrentStreak {
+  if (!streak.lastCommitDate) {
+    return { ...streak, current: 0, daysSinceLastCommit: null };
+  }
+
+  const daysSinceLastCommit = getDaysBetween(
+    streak.lastCommitDate,
+    toDateString(now, timezone),
+  );
+  return {
+    ...streak,
+    current: daysSinceLastCommit <= 1 ? streak.current : 0,
+    daysSinceLastCommit,
+  };
+}
+
+// 新しいコミットほど重くなるよう減衰させたコミット数で活動量を置き換える
+// 経過日数がhalfLife日ごとにコミットの重みが半分になる（halfLifeが0なら減衰なし）
+export function applyRecencyDecay(
+  activity: ActivityBreakdown,
+  daily: DailyCommits | undefined,
+  halfLife: number,
+  timezone: string,
+  now: Date = new Date(),
+): ActivityBreakdown {
+  if (halfLife <= 0 || !daily) return activity;
+
+  const today = toDateString(now, timezone);
+  const commits = Object.entries(daily).reduce(
+    (total, [date, count]) =>
+      total + count * Math.pow(0.5, getDaysBetween(date, today) / halfLife),
+    0,
+  );
+  return { ...activity, commits: Math.round(commits * 10) / 10 };
+}
+
+// 指定タイムゾーンでの日時の各要素を取得
+export function getZonedDateParts(
+  date: Date,
+  timezone: string,
+): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+} {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((part) => part.type === type)?.value ?? "0");
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+  };
+}
+
+// 指定タイムゾーンでの日付文字列（YYYY-MM-DD）に変換
+// daysAgoを指定するとその日数前の暦日を返す
+export function toDateString(
+  date: Date,
+  timezone: string,
+  daysAgo: number = 0,
+): string {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+  return new Date(Date.UTC(year, month - 1, day - daysAgo))
+    .toISOString()
+    .slice(0, 10);
+}
+
+// 指定タイムゾーンでのN日前の0時を取得
+export function getStartOfDay(
+  date: Date,
+  timezone: string,
+  daysAgo: number = 0,
+): Date {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+  const midnightAsUtc = Date.UTC(year, month - 1, day - daysAgo);
+
+  // UTCとの差（夏時間を考慮して求めた時刻で再計算）
+  const getOffset = (time: number) => {
+    const p = getZonedDateParts(new Date(time), timezone);
+    const zoned = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+    return zoned - Math.floor(time / (60 * 1000)) * 60 * 1000;
+  };
+
+  const guess = midnightAsUtc - getOffset(midnightAsUtc);
+  return new Date(midnightAsUtc - getOffset(guess));
+}
+
+// 監視期間の開始日時（今日を含むN日間の初日の0時）
+export function getMonitoringSince(
+  monitoringDays: number,
+  timezone: string,
+  now: Date = new Date(),
+): Date {
+  return getStartOfDay(now, timezone, Math.max(monitoringDays - 1, 0));
+}
@@ -0,0 +1,288 @@
+import type {
+  CacheData,
+  Config,
+  Env,
+  GitHubPushEvent,
+  RepoCommits,
+} from "./types";
+import { getCacheKey, getRepoCursors, saveRepoCursors } from "./cache";
+import { canReadPrivateRepos, getRepoCursorKey } from "./github";
+import { notifyStatusChange } from "./notify";
+import {
+  applyRecencyDecay,
+  calculateActivityScore,
+  calculateStreak,
+  getHealthStatus,
+  getCoAuthorEmails,
+  getMonitoringSince,
+  getNoreplyLogin,
+  isAllowedUser,
+  isExcludedOrg,
+  isExcludedRepo,
+  isUserCommit,
+  mergeDailyCommits,
+  toDateString,
+} from "./utils";
+
+// 処理済みの配信IDの保持期間（GitHubの再配信は数日以内に行われる）
+const DELIVERY_TTL = 7 * 24 * 60 * 60;
+
+// マージコミットとみなすコミットメッセージ（pushイベントには親コミットの情報がない）
+const MERGE_MESSAGE_PATTERN =
+  /^Merge (pull request #\d+|(remote-tracking )?branch '[^']+')/;
+
+// 配信IDのキー
+function getDeliveryKey(deliveryId: string): string {
+  return `github-webhook-delivery:${deliveryId}`;
+}
+
+// 16進数文字列をバイト列に変換
+function hexToBytes(hex: string): Uint8Array | null {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// X-Hub-Signature-256の検証（crypto.subtle.verifyで定数時間比較）
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signatureHeader: string | undefined,
+): Promise<boolean> {
+  if (!signatureHeader?.startsWith("sha256=")) return false;
+
+  const signature = hexToBytes(signatureHeader.slice("sha256=".length));
+  if (!signature) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+
+  return crypto.subtle.verify("HMAC", key, signature, encoder.encode(body));
+}
+
+// 処理済みの配信か判定
+export async function isDeliveryProcessed(
+  env: Env,
+  deliveryId: string,
+): Promise<boolean> {
+  return await env.AM_I_GENKI_CACHE.get(getDeliveryKey(deliveryId)) !== null;
+}
+
+// 配信を処理済みとして記録
+export async function markDeliveryProcessed(env: Env, deliveryId: string) {
+  await env.AM_I_GENKI_CACHE.put(getDeliveryKey(deliveryId), "1", {
+    expirationTtl: DELIVERY_TTL,
+  });
+}
+
+// 集計対象のリポジトリか判定（REST版の集計と同じ条件）
+function isTargetRepo(
+  username: string,
+  repository: GitHubPushEvent["repository"],
+  config: Config,
+): boolean {
+  const owner = repository.owner;
+  if (isExcludedRepo(owner.login, repository.name, config)) return false;
+  if (owner.login.toLowerCase() === username.toLowerCase()) return true;
+
+  return owner.type === "Organization" && config.includeOrgRepos &&
+    !isExcludedOrg(owner.login, config);
+}
+
+// コミットの作者・共著者になりうるユーザーを列挙
+// （GitHubのユーザー名、noreplyアドレスのユーザー名、メールアドレスを登録したユーザー）
+function getCommitCandidates(
+  commit: GitHubPushEvent["commits"][number],
+  config: Config,
+): string[] {
+  const emails = [commit.author.email.toLowerCase()];
+  if (config.commitFilter.countCoAuthored) {
+    emails.push(...getCoAuthorEmails(commit.message));
+  }
+
+  const candidates = [
+    ...(commit.author.username ? [commit.author.username] : []),
+    ...emails.flatMap((email) => getNoreplyLogin(email) ?? []),
+    ...Object.entries(config.commitFilter.authorEmails)
+      .filter(([, userEmails]) => emails.some((e) => userEmails.includes(e)))
+      .map(([username]) => username),
+  ];
+
+  return [...new Set(candidates.map((username) => username.toLowerCase()))];
+}
+
+// リポジトリごとのコミット数に加算（キーの大文字小文字は区別しない）
+function addRepoCommits(
+  repos: RepoCommits,
+  repoName: string,
+  added: number,
+): RepoCommits {
+  const key = Object.keys(repos).find((name) =>
+    name.toLowerCase() === repoName.toLowerCase()
+  ) ?? repoName;
+  return { ...repos, [key]: (repos[key] ?? 0) + added };
+}
+
+// pushイベントのコミットをキャッシュに加算し、更新したユーザーを返す（元気度が変化したユーザーには通知する）
+export async function handlePushEvent(
+  env: Env,
+  ctx: ExecutionContext,
+  config: Config,
+  event: GitHubPushEvent,
+): Promise<string[]> {
+  // 集計はデフォルトブランチのコミットのみ
+  if (event.ref !== `refs/heads/${event.repository.default_branch}`) {
+    return [];
+  }
+
+  const since = getMonitoringSince(config.monitoringDays, config.timezone);
+
+  // ユーザーごとに集計対象のコミットをまとめる
+  const commitsByUser = new Map<string, GitHubPushEvent["commits"]>();
+  for (const commit of event.commits) {
+    if (!commit.distinct) continue;
+    if (new Date(commit.timestamp) < since) continue;
+
+    for (const username of getCommitCandidates(commit, config)) {
+      const isTarget = isUserCommit(username, {
+        login: commit.author.username,
+        name: commit.author.name,
+        email: commit.author.email,
+        message: commit.message,
+        isMerge: MERGE_MESSAGE_PATTERN.test(commit.message),
+      }, config);
+      if (!isTarget) continue;
+
+      commitsByUser.set(username, [
+        ...(commitsByUser.get(username) ?? []),
+        commit,
+      ]);
+    }
+  }
+
+  const updated: string[] = [];
+
+  for (const [username, commits] of commitsByUser) {
+    const userConfig = { ...config, username };
+    if (!isAllowedUser(username, config)) continue;
+    if (!isTargetRepo(username, event.repository, userConfig)) continue;
+
+    // キャッシュがないユーザーは次回の取得時に集計されるため何もしない
+    const cacheKey = getCacheKey(username);
+    const cached = await env.AM_I_GENKI_CACHE.get(cacheKey, "json") as
+      | CacheData
+      | null;
+    if (!cached) continue;
+
+    // 非公開リポジトリはトークンの持ち主本人の場合のみ数える
+    if (
+      event.repository.private &&
+      !(await canReadPrivateRepos(username, config))
+    ) {
+      continue;
+    }
+
+    // 増分集計の状態があればSHA単位で記録し、記録済みのコミットは加算しない
+    let addedCommits = commits;
+    if (config.commitDataSource === "rest") {
+      const cursors = await getRepoCursors(env, username);
+      const cursor = cursors[
+        await getRepoCursorKey(
+          event.repository.owner.login,
+          event.repository.name,
+          event.repository.private,
+        )
+      ];
+
+      if (cursor) {
+        const recorded = new Set(Object.values(cursor.days).flat());
+        addedCommits = commits.filter((commit) => !recorded.has(commit.id));
+        for (const commit of addedCommits) {
+          const date = toDateString(
+            new Date(commit.timestamp),
+            config.timezone,
+          );
+          cursor.days[date] = [...(cursor.days[date] ?? []), commit.id];
+        }
+
+        await saveRepoCursors(env, userConfig, cursors);
+      }
+    }
+    const added = addedCommits.length;
+    if (added === 0) continue;
+
+    // コミット数を加算してスコア・ステータスを再計算
+    const data: CacheData = {
+      ...cached,
+      commits: cached.commits + added,
+      lastWebhookAt: new Date().toISOString(),
+    };
+    // 非公開リポジトリは名前を残さず合計のみ加算
+    if (event.repository.private) {
+      data.privateCommits = (cached.privateCommits ?? 0) + added;
+    } else if (cached.repos) {
+      data.repos = addRepoCommits(
+        cached.repos,
+        `${event.repository.owner.login}/${event.repository.name}`,
+        added,
+      );
+      // 初めてコミットが記録されたリポジトリは集計元の数にも加える
+      if (Object.keys(data.repos).length > Object.keys(cached.repos).length) {
+        const isOwned = event.repository.owner.login.toLowerCase() ===
+          username.toLowerCase();
+        data.sources = {
+          owned: cached.sources.owned + (isOwned ? 1 : 0),
+          org: cached.sources.org + (isOwned ? 0 : 1),
+        };
+      }
+    }
+    // 日ごとのコミット数に加えて連続記録を更新
+    if (cached.daily) {
+      data.daily = mergeDailyCommits(
+        cached.daily,
+        ...addedCommits.map((commit) => ({
+          [toDateString(new Date(commit.timestamp), config.timezone)]: 1,
+        })),
+      );
+      data.streak = calculateStreak(data.daily, config.timezone);
+    }
+    if (cached.activity) {
+      data.activity = { ...cached.activity, commits: data.commits };
+      data.score = calculateActivityScore(
+        applyRecencyDecay(
+          data.activity,
+          data.daily,
+          config.recencyHalfLife,
+          config.timezone,
+        ),
+        config.activityWeights,
+      );
+    } else {
+      data.score = data.commits;
+    }
+    data.status = getHealthStatus(
+      data.score,
+      config.healthyThreshold,
+      config.moderateThreshold,
+    );
+
+    await env.AM_I_GENKI_CACHE.put(cacheKey, JSON.stringify(data), {
+      expirationTtl: config.cacheTTL,
+    });
+    updated.push(username);
+
+    // 元気度が変化していれば通知（配信の再試行を待たずに応答する）
+    ctx.waitUntil(notifyStatusChange(env, userConfig, cached, data));
+  }
+
+  return updated;
+}
@@ -0,0 +1,359 @@
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CacheData, HistoryEntry, RepoCursors } from '../src/types';
+import {
+	getCacheData,
+	getCacheKey,
+	getHistoryKey,
+	getRefreshStatus,
+	getRepoCursorsKey,
+	refreshCache,
+	shouldUpdateCache,
+} from '../src/cache';
+import { EXPECTED_COMMITS, githubFixtures } from './fixtures/github';
+import {
+	FORGE_ENV,
+	getTestConfig,
+	getTestEnv,
+	installFakeForges,
+	installFakeGithub,
+} from './helpers';
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('shouldUpdateCache', () => {
+	// 更新時刻はAsia/Tokyoの8時（UTCの23時）
+	const at = (iso: string) => new Date(iso);
+
+	it('keeps the cache within the same update cycle', () => {
+		expect(
+			shouldUpdateCache(
+				'2025-07-03T23:30:00Z',
+				8,
+				'Asia/Tokyo',
+				at('2025-07-04T22:59:00Z'),
+			),
+		).toBe(false);
+	});
+
+	it('updates once the update hour has passed', () => {
+		expect(
+			shouldUpdateCache(
+				'2025-07-03T23:30:00Z',
+				8,
+				'Asia/Tokyo',
+				at('2025-07-04T23:00:00Z'),
+			),
+		).toBe(true);
+	});
+
+	it('treats the hours before the update hour as the previous day', () => {
+		// 7:59と当日0:30はどちらも前日の更新サイクル
+		expect(
+			shouldUpdateCache(
+				'2025-07-03T15:30:00Z',
+				8,
+				'Asia/Tokyo',
+				at('2025-07-03T22:59:00Z'),
+			),
+		).toBe(false);
+	});
+
+	it('uses the configured timezone for day boundaries', () => {
+		// UTCでは翌日の9時半、ロサンゼルスではまだ2時半
+		const lastUpdated = '2025-07-04T16:00:00Z';
+		const now = at('2025-07-05T09:30:00Z');
+
+		expect(shouldUpdateCache(lastUpdated, 8, 'UTC', now)).toBe(true);
+		expect(shouldUpdateCache(lastUpdated, 8, 'America/Los_Angeles', now)).toBe(
+			false,
+		);
+	});
+
+	it('updates when more than 24 hours have passed', () => {
+		expect(
+			shouldUpdateCache(
+				'2025-07-03T23:30:00Z',
+				8,
+				'Asia/Tokyo',
+				at('2025-07-04T23:31:00Z'),
+			),
+		).toBe(true);
+	});
+});
+
+describe('refreshCache', () => {
+	it('stores the cache, history, cursors and refresh status', async () => {
+		installFakeGithub();
+		const env = getTestEnv();
+		const config = getTestConfig();
+
+		const data = await refreshCache(env, config, getCacheKey('alice'));
+
+		expect(data.commits).toBe(EXPECTED_COMMITS);
+		expect(data.status).toBe('moderate');
+		expect(data.partial).toBe(false);
+
+		const cached = (await env.AM_I_GENKI_CACHE.get(
+			getCacheKey('alice'),
+			'json',
+		)) as CacheData;
+		expect(cached).toEqual(data);
+
+		const history = (await env.AM_I_GENKI_CACHE.get(
+			getHistoryKey('alice'),
+			'json',
+		)) as HistoryEntry[];
+		expect(history).toHaveLength(1);
+		expect(history[0].commits).toBe(EXPECTED_COMMITS);
+
+		const cursors = (await env.AM_I_GENKI_CACHE.get(
+			getRepoCursorsKey('alice'),
+			'json',
+		)) as RepoCursors;
+		expect(Object.keys(cursors).sort()).toEqual(['alice/app', 'alice/paged']);
+
+		const status = await getRefreshStatus(env, getCacheKey('alice'));
+		expect(status?.failures).toBe(0);
+		expect(status?.lastSuccessAt).toBeDefined();
+	});
+
+	it('reuses cursors for repos that were not pushed since', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv();
+		const config = getTestConfig();
+
+		await refreshCache(env, config, getCacheKey('alice'));
+		const requests = fake.count(/\/commits$/);
+		const data = await refreshCache(env, config, getCacheKey('alice'));
+
+		expect(data.commits).toBe(EXPECTED_COMMITS);
+		expect(fake.count(/\/commits$/)).toBe(requests);
+	});
+
+	it('counts old commits merged after the last refresh', async () => {
+		const fixtures = structuredClone(githubFixtures);
+		installFakeGithub(fixtures);
+		const env = getTestEnv();
+		const config = getTestConfig();
+
+		await refreshCache(env, config, getCacheKey('alice'));
+
+		// 3日前に作成されたコミットが、前回の取得後にマージされた
+		const app = fixtures.users.alice.repos.find(
+			(repo) => repo.name === 'app',
+		)!;
+		app.commits.push({ sha: 'late1', login: 'alice', daysAgo: 3 });
+		app.pushedDaysAgo = -1;
+		const data = await refreshCache(env, config, getCacheKey('alice'));
+
+		expect(data.commits).toBe(EXPECTED_COMMITS + 1);
+	});
+
+	it('keeps the previous counts when the refresh is partial', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv();
+		const config = getTestConfig();
+		const previous = await refreshCache(env, config, getCacheKey('alice'));
+
+		fake.fail('/users/alice/repos', {
+			status: 403,
+			headers: {
+				'x-ratelimit-remaining': '0',
+				'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600),
+			},
+		});
+		const data = await refreshCache(env, config, getCacheKey('alice'));
+
+		expect(data).toMatchObject({
+			commits: previous.commits,
+			status: previous.status,
+			daily: previous.daily,
+			streak: previous.streak,
+			partial: true,
+		});
+		const history = (await env.AM_I_GENKI_CACHE.get(
+			getHistoryKey('alice'),
+			'json',
+		)) as HistoryEntry[];
+		expect(history).toHaveLength(1);
+		expect(history[0].commits).toBe(previous.commits);
+	});
+
+	it('records failures and backs off', async () => {
+		const fake = installFakeGithub();
+		fake.fail('/users/alice/repos', {
+			status: 403,
+			headers: {
+				'x-ratelimit-remaining': '0',
+				'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600),
+			},
+		});
+		const env = getTestEnv();
+		const config = getTestConfig();
+
+		const data = await refreshCache(env, config, getCacheKey('alice'));
+		expect(data.partial).toBe(true);
+
+		// レート制限が記録されたため、次の更新はAPIを呼ばずに失敗する
+		const requests = fake.requests.length;
+		await expect(
+			refreshCache(env, config, getCacheKey('alice')),
+		).rejects.toThrow('rate limit is exhausted');
+		expect(fake.requests).toHaveLength(requests);
+
+		const status = await getRefreshStatus(env, getCacheKey('alice'));
+		expect(status?.failures).toBe(1);
+		expect(status?.lastError?.message).toContain('rate limit is exhausted');
+		expect(new Date(status!.retryAfter!).getTime()).toBeGreaterThan(
+			Date.now(),
+		);
+	});
+});
+
+describe('getCacheData', () => {
+	const cachedData = (lastUpdated: Date): CacheData => ({
+		commits: 1,
+		status: 'inactive',
+		lastUpdated: lastUpdated.toISOString(),
+		sources: { owned: 1, org: 0 },
+	});
+
+	it('returns fresh cache without calling the API', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv();
+		const ctx = createExecutionContext();
+		const cached = cachedData(new Date());
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify(cached),
+		);
+
+		const data = await getCacheData(
+			env,
+			ctx,
+			getTestConfig(),
+			getCacheKey('alice'),
+		);
+		await waitOnExecutionContext(ctx);
+
+		expect(data).toEqual(cached);
+		expect(fake.requests).toHaveLength(0);
+	});
+
+	it('returns stale cache and refreshes it in the background', async () => {
+		installFakeGithub();
+		const env = getTestEnv();
+		const ctx = createExecutionContext();
+		const cached = cachedData(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify(cached),
+		);
+
+		const data = await getCacheData(
+			env,
+			ctx,
+			getTestConfig(),
+			getCacheKey('alice'),
+		);
+		expect(data).toEqual(cached);
+
+		await waitOnExecutionContext(ctx);
+		const updated = (await env.AM_I_GENKI_CACHE.get(
+			getCacheKey('alice'),
+			'json',
+		)) as CacheData;
+		expect(updated.commits).toBe(EXPECTED_COMMITS);
+	});
+
+	it('waits before refetching partial data', async () => {
+		// GitLabのユーザーが見つからないため、毎回partialになる
+		const { requests } = installFakeForges({
+			gitlab: { username: 'someone-else', repos: [] },
+		});
+		const env = getTestEnv();
+		const config = getTestConfig(FORGE_ENV);
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify({ ...cachedData(new Date()), partial: true }),
+		);
+
+		const ctx = createExecutionContext();
+		await getCacheData(env, ctx, config, getCacheKey('alice'));
+		await waitOnExecutionContext(ctx);
+
+		const updated = (await env.AM_I_GENKI_CACHE.get(
+			getCacheKey('alice'),
+			'json',
+		)) as CacheData;
+		expect(updated.partial).toBe(true);
+		const status = await getRefreshStatus(env, getCacheKey('alice'));
+		expect(status?.failures).toBe(0);
+		expect(new Date(status!.retryAfter!).getTime()).toBeGreaterThan(
+			Date.now(),
+		);
+
+		// 再試行の時刻までは、partialのままでも取り直さない
+		const count = requests.length;
+		const next = createExecutionContext();
+		const data = await getCacheData(env, next, config, getCacheKey('alice'));
+		await waitOnExecutionContext(next);
+
+		expect(data).toEqual(updated);
+		expect(requests).toHaveLength(count);
+	});
+
+	it('refreshes custom windows of scheduled users on request', async () => {
+		installFakeGithub();
+		const env = getTestEnv({ SCHEDULED_REFRESH: 'true' });
+		const config = getTestConfig({ SCHEDULED_REFRESH: 'true' });
+		const stale = cachedData(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+		for (const key of [getCacheKey('alice'), getCacheKey('alice', 30)]) {
+			await env.AM_I_GENKI_CACHE.put(key, JSON.stringify(stale));
+		}
+
+		const ctx = createExecutionContext();
+		await getCacheData(env, ctx, config, getCacheKey('alice'), ['alice']);
+		await getCacheData(
+			env,
+			ctx,
+			{ ...config, monitoringDays: 30 },
+			getCacheKey('alice', 30),
+			['alice'],
+		);
+		await waitOnExecutionContext(ctx);
+
+		// 設定どおりの期間はCronに任せ、期間を指定したキャッシュのみ更新する
+		expect(
+			await env.AM_I_GENKI_CACHE.get(getCacheKey('alice'), 'json'),
+		).toEqual(stale);
+		const updated = (await env.AM_I_GENKI_CACHE.get(
+			getCacheKey('alice', 30),
+			'json',
+		)) as CacheData;
+		expect(updated.lastUpdated).not.toBe(stale.lastUpdated);
+	});
+
+	it('keeps failures of custom windows out of the default backoff', async () => {
+		const fake = installFakeGithub();
+		fake.fail('/users/alice/repos', { status: 500 });
+		const env = getTestEnv();
+		const config = getTestConfig();
+
+		await expect(
+			refreshCache(
+				env,
+				{ ...config, monitoringDays: 90 },
+				getCacheKey('alice', 90),
+			),
+		).rejects.toThrow();
+
+		expect(
+			(await getRefreshStatus(env, getCacheKey('alice', 90)))?.failures,
+		).toBe(1);
+		expect(await getRefreshStatus(env, getCacheKey('alice'))).toBeNull();
+	});
+});
@@ -1,3 +1,6 @@
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends Env {
+		AM_I_GENKI_CACHE: KVNamespace;
+		GITHUB_API_URL: string;
+	}
 }
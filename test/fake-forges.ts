@@ -0,0 +1,217 @@
+import type {
+	GitLabCommit,
+	GitLabEvent,
+	GitLabProject,
+	GitLabUser,
+	GiteaCommit,
+	GiteaOrg,
+	GiteaRepo,
+	GiteaUser,
+} from '../src/types';
+import type { FakeCommit } from './fake-github';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// テスト用のGitLab・GiteaのベースURL（GITLAB_URL・GITEA_URL に設定する）
+export const FAKE_GITLAB_URL = 'https://gitlab.test';
+export const FAKE_GITEA_URL = 'https://gitea.test';
+
+// フィクスチャのリポジトリ（GitLabではプロジェクト）
+export interface FakeForgeRepo {
+	owner: string; // ユーザー名または組織（グループ）名
+	name: string;
+	private?: boolean;
+	pushedDaysAgo: number;
+	commits: FakeCommit[];
+}
+
+export interface ForgeFixtures {
+	username: string;
+	viewer?: string; // トークンの持ち主（/user で返すユーザー）
+	orgs?: string[];
+	repos: FakeForgeRepo[];
+}
+
+// フィクスチャのユーザーのメールアドレス（GitLabのコミットにはユーザー名がないため公開メールアドレスで判定する）
+function toEmail(commit: FakeCommit) {
+	return commit.email ?? `${commit.login ?? 'unknown'}@example.test`;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+	return Response.json(body, { status });
+}
+
+// フィクスチャを返すGitLab APIの偽物
+export function createFakeGitLab(fixtures: ForgeFixtures) {
+	const now = Date.now();
+	const toDate = (daysAgo: number) =>
+		new Date(now - daysAgo * DAY - 60 * 1000).toISOString();
+	const user: GitLabUser = {
+		id: 1,
+		username: fixtures.username,
+		name: fixtures.username,
+		public_email: `${fixtures.username}@example.test`,
+	};
+
+	const toProject = (repo: FakeForgeRepo, i: number): GitLabProject => ({
+		id: i + 1,
+		path: repo.name,
+		path_with_namespace: `${repo.owner}/${repo.name}`,
+		visibility: repo.private ? 'private' : 'public',
+		namespace: {
+			path: repo.owner,
+			full_path: repo.owner,
+			kind: repo.owner === fixtures.username ? 'user' : 'group',
+		},
+	});
+
+	return async (url: URL): Promise<Response> => {
+		const path = url.pathname;
+		let match: RegExpMatchArray | null;
+
+		if (path === '/api/v4/user') {
+			const viewer = fixtures.viewer;
+			if (!viewer) return jsonResponse({ message: '401 Unauthorized' }, 401);
+			return jsonResponse(
+				viewer === fixtures.username
+					? user
+					: ({ id: 2, username: viewer, name: viewer } satisfies GitLabUser),
+			);
+		}
+
+		if (path === '/api/v4/users') {
+			const username = url.searchParams.get('username');
+			return jsonResponse(username === fixtures.username ? [user] : []);
+		}
+
+		if (path === `/api/v4/users/${user.id}/events`) {
+			return jsonResponse(
+				fixtures.repos.map(
+					(repo, i): GitLabEvent => ({
+						project_id: i + 1,
+						created_at: toDate(repo.pushedDaysAgo),
+					}),
+				),
+			);
+		}
+
+		if ((match = path.match(/^\/api\/v4\/projects\/(\d+)$/))) {
+			const index = parseInt(match[1]) - 1;
+			const repo = fixtures.repos[index];
+			if (!repo) return jsonResponse({ message: 'Not Found' }, 404);
+			return jsonResponse(toProject(repo, index));
+		}
+
+		if (
+			(match = path.match(/^\/api\/v4\/projects\/(\d+)\/repository\/commits$/))
+		) {
+			const repo = fixtures.repos[parseInt(match[1]) - 1];
+			if (!repo) return jsonResponse({ message: 'Not Found' }, 404);
+			const since = url.searchParams.get('since') ?? '';
+			return jsonResponse(
+				repo.commits
+					.map(
+						(commit): GitLabCommit => ({
+							id: commit.sha,
+							author_name: commit.name ?? commit.login ?? 'unknown',
+							author_email: toEmail(commit),
+							committed_date: toDate(commit.daysAgo),
+							message: commit.message ?? `Commit ${commit.sha}`,
+							parent_ids: Array.from(
+								{ length: commit.parents ?? 1 },
+								(_, i) => `${commit.sha}-parent-${i}`,
+							),
+						}),
+					)
+					.filter((commit) => commit.committed_date >= since),
+			);
+		}
+
+		return jsonResponse({ message: 'Not Found' }, 404);
+	};
+}
+
+// フィクスチャを返すGitea・Forgejo APIの偽物
+export function createFakeGitea(fixtures: ForgeFixtures) {
+	const now = Date.now();
+	const toDate = (daysAgo: number) =>
+		new Date(now - daysAgo * DAY - 60 * 1000).toISOString();
+
+	const toRepo = (repo: FakeForgeRepo): GiteaRepo => ({
+		name: repo.name,
+		private: !!repo.private,
+		owner: { login: repo.owner },
+		updated_at: toDate(repo.pushedDaysAgo),
+	});
+	const listRepos = (owner: string) =>
+		jsonResponse(
+			fixtures.repos.filter((repo) => repo.owner === owner).map(toRepo),
+		);
+
+	return async (url: URL): Promise<Response> => {
+		const path = url.pathname;
+		const username = fixtures.username;
+		let match: RegExpMatchArray | null;
+
+		if (path === '/api/v1/user') {
+			const viewer = fixtures.viewer;
+			if (!viewer) return jsonResponse({ message: 'Unauthorized' }, 401);
+			return jsonResponse({
+				id: viewer === username ? 1 : 2,
+				login: viewer,
+				full_name: viewer,
+			} satisfies GiteaUser);
+		}
+		if (path === `/api/v1/users/${username}`) {
+			return jsonResponse({
+				id: 1,
+				login: username,
+				full_name: username,
+			} satisfies GiteaUser);
+		}
+		if (path === `/api/v1/users/${username}/repos`) {
+			return listRepos(username);
+		}
+		if (path === `/api/v1/users/${username}/orgs`) {
+			return jsonResponse(
+				(fixtures.orgs ?? []).map((org): GiteaOrg => ({ username: org })),
+			);
+		}
+		if ((match = path.match(/^\/api\/v1\/orgs\/([^/]+)\/repos$/))) {
+			return listRepos(match[1]);
+		}
+
+		if ((match = path.match(/^\/api\/v1\/repos\/([^/]+)\/([^/]+)\/commits$/))) {
+			const [, owner, name] = match;
+			const repo = fixtures.repos.find(
+				(repo) => repo.owner === owner && repo.name === name,
+			);
+			if (!repo) return jsonResponse({ message: 'Not Found' }, 404);
+			const since = url.searchParams.get('since') ?? '';
+			return jsonResponse(
+				repo.commits
+					.map(
+						(commit): GiteaCommit => ({
+							sha: commit.sha,
+							author: commit.login ? { login: commit.login } : null,
+							commit: {
+								author: {
+									name: commit.name ?? commit.login ?? 'unknown',
+									email: toEmail(commit),
+								},
+								committer: { date: toDate(commit.daysAgo) },
+								message: commit.message ?? `Commit ${commit.sha}`,
+							},
+							parents: Array.from(
+								{ length: commit.parents ?? 1 },
+								(_, i) => ({ sha: `${commit.sha}-parent-${i}` }),
+							),
+						}),
+					)
+					.filter((commit) => commit.commit.committer.date >= since),
+			);
+		}
+
+		return jsonResponse({ message: 'Not Found' }, 404);
+	};
+}
@@ -0,0 +1,14 @@
+import { createFakeGithub, type FakeGithub } from './fake-github';
+import { githubFixtures } from './fixtures/github';
+
+// フィクスチャを返すGitHub APIをローカルで起動する（npm run fake-github）
+// .dev.vars に GITHUB_API_URL=http://localhost:8788 を指定すると、オフラインでWorkerを動かせる
+let fake: FakeGithub | undefined;
+
+export default {
+	fetch(request) {
+		// Workerのグローバルスコープでは現在時刻を取得できないため、最初のリクエストで作成する
+		fake ??= createFakeGithub(githubFixtures);
+		return fake.fetch(request);
+	},
+} satisfies ExportedHandler;
@@ -0,0 +1,353 @@
+import type {
+	GitHubCommit,
+	GitHubContributionsResponse,
+	GitHubOrg,
+	GitHubRepo,
+	GitHubSearchResponse,
+	GitHubUser,
+} from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// テスト用のGitHub APIのベースURL（GITHUB_API_URL に設定する）
+export const FAKE_GITHUB_API_URL = 'https://github.test';
+
+// フィクスチャのコミット（日時は現在からの経過日数で指定）
+export interface FakeCommit {
+	sha: string;
+	login: string | null; // GitHubアカウントに紐づいていない場合はnull
+	name?: string;
+	email?: string;
+	daysAgo: number;
+	message?: string;
+	parents?: number; // 親コミットの数（2以上はマージコミット、デフォルト: 1）
+}
+
+export interface FakeRepo {
+	name: string;
+	private?: boolean;
+	pushedDaysAgo: number;
+	commits: FakeCommit[];
+}
+
+export interface GithubFixtures {
+	users: Record<string, { repos: FakeRepo[]; orgs?: string[] }>;
+	orgs?: Record<string, { repos: FakeRepo[] }>;
+	// 検索クエリの先頭部分ごとの件数（一致しないクエリは0件）
+	search?: Record<string, number>;
+}
+
+// 特定のリクエストに返すエラー（timesを指定するとその回数だけ返す）
+export interface FakeFailure {
+	status: number;
+	headers?: Record<string, string>;
+	body?: string;
+	times?: number;
+}
+
+export interface FakeGithubOptions {
+	maxPerPage?: number; // 1ページあたりの最大件数（ページネーションの確認用）
+	viewer?: string; // トークンの持ち主（/user で返すユーザー）
+	rateLimit?: { remaining: number; reset: number };
+}
+
+// フィクスチャを返すGitHub APIの偽物
+// fetchをglobalThis.fetchに差し替えるか、Workerとして起動してGITHUB_API_URLに指定する
+export function createFakeGithub(
+	fixtures: GithubFixtures,
+	options: FakeGithubOptions = {},
+) {
+	const requests: URL[] = [];
+	const failures: Array<{ pattern: RegExp; failure: FakeFailure }> = [];
+	const now = Date.now();
+
+	const toDate = (daysAgo: number) =>
+		new Date(now - daysAgo * DAY - 60 * 1000).toISOString();
+
+	const toRepo = (repo: FakeRepo): GitHubRepo => ({
+		name: repo.name,
+		private: !!repo.private,
+		updated_at: toDate(repo.pushedDaysAgo),
+		pushed_at: toDate(repo.pushedDaysAgo),
+	});
+
+	const toCommit = (commit: FakeCommit): GitHubCommit => ({
+		sha: commit.sha,
+		author: commit.login ? { login: commit.login } : undefined,
+		commit: {
+			author: {
+				name: commit.name ?? commit.login ?? 'unknown',
+				email:
+					commit.email ??
+					`${commit.login ?? 'unknown'}@users.noreply.github.com`,
+			},
+			message: commit.message ?? `Commit ${commit.sha}`,
+			committer: { date: toDate(commit.daysAgo) },
+		},
+		parents: Array.from({ length: commit.parents ?? 1 }, (_, i) => ({
+			sha: `${commit.sha}-parent-${i}`,
+		})),
+	});
+
+	const findRepo = (owner: string, name: string) => {
+		const repos =
+			fixtures.users[owner]?.repos ?? fixtures.orgs?.[owner]?.repos ?? [];
+		return repos.find((repo) => repo.name === name);
+	};
+
+	const headers = (url: URL): Record<string, string> => {
+		const result: Record<string, string> = {
+			'Content-Type': 'application/json',
+		};
+		if (options.rateLimit) {
+			result['x-ratelimit-remaining'] = String(options.rateLimit.remaining);
+			result['x-ratelimit-reset'] = String(options.rateLimit.reset);
+			result['x-ratelimit-resource'] = url.pathname.startsWith('/search/')
+				? 'search'
+				: 'core';
+		}
+		return result;
+	};
+
+	// page・per_pageに従って一覧を返し、続きがあればLinkヘッダーを付ける
+	const paginate = (url: URL, items: unknown[]) => {
+		const perPage = Math.min(
+			parseInt(url.searchParams.get('per_page') ?? '30'),
+			options.maxPerPage ?? 100,
+		);
+		const page = parseInt(url.searchParams.get('page') ?? '1');
+		const body = items.slice((page - 1) * perPage, page * perPage);
+		const result = headers(url);
+
+		if (page * perPage < items.length) {
+			const next = new URL(url);
+			next.searchParams.set('page', String(page + 1));
+			result['Link'] = `<${next}>; rel="next"`;
+		}
+		return new Response(JSON.stringify(body), { headers: result });
+	};
+
+	const notFound = (url: URL) =>
+		new Response(JSON.stringify({ message: 'Not Found' }), {
+			status: 404,
+			headers: headers(url),
+		});
+
+	const listRepos = (url: URL, repos: FakeRepo[]) =>
+		paginate(
+			url,
+			[...repos]
+				.sort((a, b) => a.pushedDaysAgo - b.pushedDaysAgo)
+				.map(toRepo),
+		);
+
+	const listOrgs = (url: URL, orgs: string[]) =>
+		paginate(
+			url,
+			orgs.map((login): GitHubOrg => ({ login })),
+		);
+
+	// GraphQLのcontributionsCollection（トークンで読める非公開リポジトリも返す）
+	const contributions = (
+		url: URL,
+		variables: { login: string; from: string; to: string },
+	) => {
+		const login = variables.login.toLowerCase();
+		const owners = [
+			...Object.entries(fixtures.users),
+			...Object.entries(fixtures.orgs ?? {}),
+		];
+		const byRepo = owners.flatMap(([owner, { repos }]) =>
+			repos
+				.filter((repo) => !repo.private || !!options.viewer)
+				.map((repo) => ({
+					repository: {
+						name: repo.name,
+						owner: { login: owner },
+						isPrivate: !!repo.private,
+					},
+					nodes: repo.commits
+						.filter((commit) => commit.login?.toLowerCase() === login)
+						.map((commit) => ({
+							occurredAt: toDate(commit.daysAgo),
+							commitCount: 1,
+						}))
+						.filter(
+							({ occurredAt }) =>
+								occurredAt >= variables.from && occurredAt <= variables.to,
+						),
+				}))
+				.filter(({ nodes }) => nodes.length > 0),
+		);
+
+		return Response.json(
+			{
+				data: {
+					user: {
+						contributionsCollection: {
+							commitContributionsByRepository: byRepo.map(
+								({ repository, nodes }) => ({
+									repository,
+									contributions: { totalCount: nodes.length, nodes },
+								}),
+							),
+						},
+					},
+				},
+			} satisfies GitHubContributionsResponse,
+			{ headers: headers(url) },
+		);
+	};
+
+	const unauthorized = (url: URL) =>
+		new Response(JSON.stringify({ message: 'Requires authentication' }), {
+			status: 401,
+			headers: headers(url),
+		});
+
+	const route = (url: URL): Response => {
+		const path = url.pathname;
+		const login = options.viewer;
+		const viewer = login ? fixtures.users[login] : undefined;
+		let match: RegExpMatchArray | null;
+
+		// 認証ユーザーとしての取得（非公開リポジトリ・組織を含む）
+		if (path === '/user') {
+			if (!login) return unauthorized(url);
+			return Response.json({ login } satisfies GitHubUser, {
+				headers: headers(url),
+			});
+		}
+		if (path === '/user/repos') {
+			if (!login) return unauthorized(url);
+			return listRepos(url, viewer?.repos ?? []);
+		}
+		if (path === '/user/orgs') {
+			if (!login) return unauthorized(url);
+			return listOrgs(url, viewer?.orgs ?? []);
+		}
+
+		if ((match = path.match(/^\/users\/([^/]+)$/))) {
+			const user = fixtures.users[match[1]];
+			if (!user) return notFound(url);
+			return Response.json({ login: match[1] } satisfies GitHubUser, {
+				headers: headers(url),
+			});
+		}
+
+		// 非公開リポジトリはtype=allかつ認証ユーザーが組織のメンバーの場合のみ返す
+		if ((match = path.match(/^\/(users|orgs)\/([^/]+)\/repos$/))) {
+			const owner =
+				match[1] === 'users'
+					? fixtures.users[match[2]]
+					: fixtures.orgs?.[match[2]];
+			if (!owner) return notFound(url);
+			const canReadPrivate =
+				match[1] === 'orgs' &&
+				url.searchParams.get('type') === 'all' &&
+				!!viewer?.orgs?.includes(match[2]);
+			return listRepos(
+				url,
+				owner.repos.filter((repo) => canReadPrivate || !repo.private),
+			);
+		}
+
+		if ((match = path.match(/^\/users\/([^/]+)\/orgs$/))) {
+			const user = fixtures.users[match[1]];
+			if (!user) return notFound(url);
+			return listOrgs(url, user.orgs ?? []);
+		}
+
+		if ((match = path.match(/^\/repos\/([^/]+)\/([^/]+)\/commits$/))) {
+			const repo = findRepo(match[1], match[2]);
+			if (!repo) return notFound(url);
+
+			const since = url.searchParams.get('since');
+			const author = url.searchParams.get('author')?.toLowerCase();
+			const commits = repo.commits
+				.map(toCommit)
+				.filter(
+					(commit) => !since || commit.commit.committer.date >= since,
+				)
+				.filter(
+					(commit) =>
+						!author ||
+						commit.author?.login.toLowerCase() === author ||
+						commit.commit.author.email.toLowerCase() === author,
+				)
+				.sort((a, b) =>
+					b.commit.committer.date.localeCompare(a.commit.committer.date),
+				);
+			return paginate(url, commits);
+		}
+
+		if (path === '/search/issues') {
+			const query = url.searchParams.get('q') ?? '';
+			const entry = Object.entries(fixtures.search ?? {}).find(([prefix]) =>
+				query.startsWith(prefix),
+			);
+			return Response.json(
+				{ total_count: entry?.[1] ?? 0 } satisfies GitHubSearchResponse,
+				{ headers: headers(url) },
+			);
+		}
+
+		return notFound(url);
+	};
+
+	return {
+		requests,
+
+		// 指定パスへのリクエストにエラーを返す
+		fail(pattern: string | RegExp, failure: FakeFailure) {
+			failures.push({
+				pattern:
+					typeof pattern === 'string'
+						? new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`)
+						: pattern,
+				failure,
+			});
+		},
+
+		// 指定パスへのリクエスト回数
+		count(pattern: RegExp): number {
+			return requests.filter((url) => pattern.test(url.pathname)).length;
+		},
+
+		async fetch(
+			input: RequestInfo | URL,
+			init?: RequestInit,
+		): Promise<Response> {
+			const request = new Request(input, init);
+			const url = new URL(request.url);
+			requests.push(url);
+
+			const index = failures.findIndex(({ pattern }) =>
+				pattern.test(url.pathname),
+			);
+			if (index >= 0) {
+				const { failure } = failures[index];
+				if (failure.times !== undefined && --failure.times <= 0) {
+					failures.splice(index, 1);
+				}
+				return new Response(
+					failure.body ?? JSON.stringify({ message: 'Fake failure' }),
+					{
+						status: failure.status,
+						headers: { ...headers(url), ...failure.headers },
+					},
+				);
+			}
+
+			if (url.pathname === '/graphql') {
+				const { variables } = (await request.json()) as {
+					variables: { login: string; from: string; to: string };
+				};
+				return contributions(url, variables);
+			}
+			return route(url);
+		},
+	};
+}
+
+export type FakeGithub = ReturnType<typeof createFakeGithub>;
@@ -0,0 +1,62 @@
+import type { ForgeFixtures } from '../fake-forges';
+
+// aliceのGitLabのプロジェクト
+// tool: 2件（他人のコミットを除く）、team/web: 2件（グループ）、old: 期間外
+export const gitlabFixtures: ForgeFixtures = {
+	username: 'alice',
+	repos: [
+		{
+			owner: 'alice',
+			name: 'tool',
+			pushedDaysAgo: 0,
+			commits: [
+				{ sha: 'gl1', login: 'alice', daysAgo: 0 },
+				{ sha: 'gl2', login: 'alice', daysAgo: 3 },
+				{ sha: 'gl3', login: 'bob', daysAgo: 1 },
+			],
+		},
+		{
+			owner: 'team',
+			name: 'web',
+			pushedDaysAgo: 1,
+			commits: [
+				{ sha: 'gl4', login: 'alice', daysAgo: 1 },
+				{ sha: 'gl5', login: 'alice', daysAgo: 2 },
+			],
+		},
+		{
+			owner: 'alice',
+			name: 'old',
+			pushedDaysAgo: 20,
+			commits: [{ sha: 'gl6', login: 'alice', daysAgo: 20 }],
+		},
+	],
+};
+
+// aliceのGitea・Forgejoのリポジトリ
+// blog: 3件、infra/ops: 1件（組織）
+export const giteaFixtures: ForgeFixtures = {
+	username: 'alice',
+	orgs: ['infra'],
+	repos: [
+		{
+			owner: 'alice',
+			name: 'blog',
+			pushedDaysAgo: 0,
+			commits: [0, 1, 2].map((daysAgo) => ({
+				sha: `gt${daysAgo}`,
+				login: 'alice',
+				daysAgo,
+			})),
+		},
+		{
+			owner: 'infra',
+			name: 'ops',
+			pushedDaysAgo: 2,
+			commits: [
+				{ sha: 'gt3', login: 'alice', daysAgo: 2 },
+				{ sha: 'gt4', login: 'bob', daysAgo: 2 },
+			],
+		},
+	],
+};
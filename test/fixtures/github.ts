@@ -0,0 +1,108 @@
+import type { GithubFixtures } from '../fake-github';
+
+// 監視期間（7日間）内のaliceの集計対象のコミット
+// app: 3件（マージ・未連携のメールアドレス・他人・Bot・期間外を除く）、paged: 5件
+export const EXPECTED_COMMITS = 8;
+
+export const githubFixtures: GithubFixtures = {
+	users: {
+		alice: {
+			orgs: ['acme'],
+			repos: [
+				{
+					name: 'app',
+					pushedDaysAgo: 0,
+					commits: [
+						{ sha: 'a1', login: 'alice', daysAgo: 0 },
+						{ sha: 'a2', login: 'alice', daysAgo: 1 },
+						{ sha: 'a3', login: 'alice', daysAgo: 3 },
+						// GitHubアカウントに紐づいていないメールアドレス
+						{
+							sha: 'a4',
+							login: null,
+							name: 'Alice',
+							email: 'alice@work.example',
+							daysAgo: 2,
+						},
+						{
+							sha: 'm1',
+							login: 'alice',
+							daysAgo: 1,
+							message: "Merge branch 'main' into feature",
+							parents: 2,
+						},
+						{ sha: 'o1', login: 'bob', daysAgo: 0 },
+						{
+							sha: 'c1',
+							login: 'bob',
+							daysAgo: 2,
+							message:
+								'Pair programming\n\nCo-authored-by: Alice <alice@users.noreply.github.com>',
+						},
+						{
+							sha: 'd1',
+							login: 'renovate[bot]',
+							daysAgo: 1,
+							message:
+								'Update deps\n\nCo-authored-by: Alice <alice@users.noreply.github.com>',
+						},
+						{ sha: 'old1', login: 'alice', daysAgo: 10 },
+					],
+				},
+				{
+					name: 'paged',
+					pushedDaysAgo: 2,
+					commits: [0, 1, 2, 3, 4].map((daysAgo) => ({
+						sha: `p${daysAgo}`,
+						login: 'alice',
+						daysAgo,
+					})),
+				},
+				// 非公開リポジトリ（INCLUDE_PRIVATE_REPOS でのみ集計）
+				{
+					name: 'secret-project',
+					private: true,
+					pushedDaysAgo: 1,
+					commits: [
+						{ sha: 's1', login: 'alice', daysAgo: 1 },
+						{ sha: 's2', login: 'alice', daysAgo: 2 },
+					],
+				},
+				{
+					name: 'dotfiles',
+					pushedDaysAgo: 0,
+					commits: [{ sha: 'f1', login: 'alice', daysAgo: 0 }],
+				},
+				{
+					name: 'archive',
+					pushedDaysAgo: 30,
+					commits: [{ sha: 'r1', login: 'alice', daysAgo: 30 }],
+				},
+			],
+		},
+	},
+	orgs: {
+		acme: {
+			repos: [
+				{
+					name: 'website',
+					pushedDaysAgo: 1,
+					commits: [
+						{ sha: 'w1', login: 'alice', daysAgo: 1 },
+						{ sha: 'w2', login: 'alice', daysAgo: 2 },
+						{ sha: 'w3', login: 'bob', daysAgo: 1 },
+					],
+				},
+				{
+					name: 'internal-tools',
+					private: true,
+					pushedDaysAgo: 2,
+					commits: [{ sha: 'i1', login: 'alice', daysAgo: 2 }],
+				},
+			],
+		},
+	},
+	search: {
+		'type:pr author:alice': 2,
+	},
+};
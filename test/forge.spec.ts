@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { countAllCommits } from '../src/forge';
+import { countGitLabCommits } from '../src/gitlab';
+import { countGiteaCommits } from '../src/gitea';
+import type { ForgeAccount } from '../src/types';
+import { FAKE_GITEA_URL, FAKE_GITLAB_URL } from './fake-forges';
+import type { ForgeFixtures } from './fake-forges';
+import { giteaFixtures, gitlabFixtures } from './fixtures/forges';
+import { EXPECTED_COMMITS } from './fixtures/github';
+import { FORGE_ENV, getTestConfig, installFakeForges } from './helpers';
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+function account(
+	type: 'gitlab' | 'gitea',
+	baseUrl: string,
+	token?: string,
+): ForgeAccount {
+	return { type, baseUrl, username: 'alice', githubUsername: 'alice', token };
+}
+
+// 非公開の所有リポジトリ（コミット1件）を加えたフィクスチャ
+function withPrivateRepo(fixtures: ForgeFixtures, viewer: string) {
+	return {
+		...fixtures,
+		viewer,
+		repos: [
+			...fixtures.repos,
+			{
+				owner: 'alice',
+				name: 'secret',
+				private: true,
+				pushedDaysAgo: 0,
+				commits: [{ sha: 'secret1', login: 'alice', daysAgo: 0 }],
+			},
+		],
+	};
+}
+
+describe('countGitLabCommits', () => {
+	it('counts commits and the projects that had them', async () => {
+		installFakeForges();
+		const config = getTestConfig({ ...FORGE_ENV, INCLUDE_ORG_REPOS: 'true' });
+
+		const result = await countGitLabCommits(
+			account('gitlab', FAKE_GITLAB_URL),
+			7,
+			config,
+		);
+
+		expect(result.commits).toBe(4);
+		expect(result.sources).toEqual({ owned: 1, org: 1 });
+		expect(result.repos).toEqual({
+			'gitlab.test/alice/tool': 2,
+			'gitlab.test/team/web': 2,
+		});
+	});
+
+	it('skips group projects unless org repos are included', async () => {
+		installFakeForges();
+		const config = getTestConfig(FORGE_ENV);
+
+		const result = await countGitLabCommits(
+			account('gitlab', FAKE_GITLAB_URL),
+			7,
+			config,
+		);
+
+		expect(result.commits).toBe(2);
+		expect(result.sources).toEqual({ owned: 1, org: 0 });
+	});
+
+	it('counts private projects only for the token owner', async () => {
+		const config = getTestConfig({
+			...FORGE_ENV,
+			GITLAB_TOKEN: 'gitlab-token',
+			INCLUDE_PRIVATE_REPOS: 'true',
+		});
+
+		for (const [viewer, privateCommits] of [
+			['bob', 0],
+			['alice', 1],
+		] as const) {
+			vi.restoreAllMocks();
+			installFakeForges({ gitlab: withPrivateRepo(gitlabFixtures, viewer) });
+
+			const result = await countGitLabCommits(
+				account('gitlab', FAKE_GITLAB_URL, 'gitlab-token'),
+				7,
+				config,
+			);
+
+			expect(result.privateCommits, viewer).toBe(privateCommits);
+			expect(result.commits, viewer).toBe(2 + privateCommits);
+			expect(Object.keys(result.repos).join(), viewer).not.toContain(
+				'secret',
+			);
+		}
+	});
+});
+
+describe('countGiteaCommits', () => {
+	it('counts commits and the repos that had them', async () => {
+		installFakeForges();
+		const config = getTestConfig({ ...FORGE_ENV, INCLUDE_ORG_REPOS: 'true' });
+
+		const result = await countGiteaCommits(
+			account('gitea', FAKE_GITEA_URL),
+			7,
+			config,
+		);
+
+		expect(result.commits).toBe(4);
+		expect(result.sources).toEqual({ owned: 1, org: 1 });
+		expect(result.repos).toEqual({
+			'gitea.test/alice/blog': 3,
+			'gitea.test/infra/ops': 1,
+		});
+	});
+
+	it('lists owned repos up to MAX_REPOS', async () => {
+		// 組織ごとの上限（MAX_REPOS_PER_ORG: 5）より多い所有リポジトリ
+		installFakeForges({
+			gitea: {
+				username: 'alice',
+				repos: Array.from({ length: 6 }, (_, i) => ({
+					owner: 'alice',
+					name: `repo${i}`,
+					pushedDaysAgo: 0,
+					commits: [{ sha: `r${i}`, login: 'alice', daysAgo: 0 }],
+				})),
+			},
+		});
+		const config = getTestConfig(FORGE_ENV);
+
+		const result = await countGiteaCommits(
+			account('gitea', FAKE_GITEA_URL),
+			7,
+			config,
+		);
+
+		expect(result.commits).toBe(6);
+		expect(result.sources).toEqual({ owned: 6, org: 0 });
+		expect(result.truncated).toBe(false);
+	});
+
+	it('counts private repos only for the token owner', async () => {
+		const config = getTestConfig({
+			...FORGE_ENV,
+			GITEA_TOKEN: 'gitea-token',
+			INCLUDE_PRIVATE_REPOS: 'true',
+		});
+
+		for (const [viewer, privateCommits] of [
+			['bob', 0],
+			['alice', 1],
+		] as const) {
+			vi.restoreAllMocks();
+			installFakeForges({ gitea: withPrivateRepo(giteaFixtures, viewer) });
+
+			const result = await countGiteaCommits(
+				account('gitea', FAKE_GITEA_URL, 'gitea-token'),
+				7,
+				config,
+			);
+
+			expect(result.privateCommits, viewer).toBe(privateCommits);
+			expect(result.commits, viewer).toBe(3 + privateCommits);
+			expect(Object.keys(result.repos).join(), viewer).not.toContain(
+				'secret',
+			);
+		}
+	});
+});
+
+describe('countAllCommits', () => {
+	it('sums commits and repo counts across forges', async () => {
+		installFakeForges();
+		const config = getTestConfig({ ...FORGE_ENV, INCLUDE_ORG_REPOS: 'true' });
+
+		const result = await countAllCommits('alice', 7, config);
+
+		expect(result.commits).toBe(EXPECTED_COMMITS + 2 + 4 + 4);
+		expect(result.sources).toEqual({ owned: 4, org: 3 });
+		expect(result.partial).toBeFalsy();
+	});
+
+	it('keeps the GitHub result when another forge fails', async () => {
+		installFakeForges({ gitlab: { username: 'someone-else', repos: [] } });
+		const config = getTestConfig(FORGE_ENV);
+
+		const result = await countAllCommits('alice', 7, config);
+
+		expect(result.commits).toBe(EXPECTED_COMMITS + 3);
+		expect(result.sources).toEqual({ owned: 3, org: 0 });
+		expect(result.partial).toBe(true);
+	});
+});
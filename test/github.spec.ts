@@ -0,0 +1,281 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getCommitCount, getContributionCommitCount } from '../src/github';
+import { createRequestBudget, getRateLimitResource } from '../src/ratelimit';
+import { fetchWithRetry } from '../src/utils';
+import { FAKE_GITHUB_API_URL } from './fake-github';
+import { EXPECTED_COMMITS } from './fixtures/github';
+import { getTestConfig, installFakeGithub } from './helpers';
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('fetchWithRetry', () => {
+	const url = `${FAKE_GITHUB_API_URL}/users/alice`;
+
+	it('retries server errors', async () => {
+		const fake = installFakeGithub();
+		fake.fail('/users/alice', { status: 502, times: 2 });
+
+		const response = await fetchWithRetry(url, {}, 3, 1);
+
+		expect(response.status).toBe(200);
+		expect(fake.count(/^\/users\/alice$/)).toBe(3);
+	});
+
+	it('waits for retry-after on 429', async () => {
+		const fake = installFakeGithub();
+		fake.fail('/users/alice', {
+			status: 429,
+			headers: { 'retry-after': '0' },
+			times: 1,
+		});
+
+		const response = await fetchWithRetry(url, {}, 3, 1);
+
+		expect(response.status).toBe(200);
+		expect(fake.count(/^\/users\/alice$/)).toBe(2);
+	});
+
+	it('does not retry permission errors', async () => {
+		const fake = installFakeGithub();
+		fake.fail('/users/alice', { status: 403 });
+
+		const response = await fetchWithRetry(url, {}, 3, 1);
+
+		expect(response.status).toBe(403);
+		expect(fake.count(/^\/users\/alice$/)).toBe(1);
+	});
+
+	it('gives up when the rate limit resets too late', async () => {
+		const fake = installFakeGithub();
+		const reset = Math.floor(Date.now() / 1000) + 3600;
+		fake.fail('/users/alice', {
+			status: 403,
+			headers: {
+				'x-ratelimit-remaining': '0',
+				'x-ratelimit-reset': String(reset),
+			},
+		});
+		const budget = createRequestBudget(10);
+
+		const response = await fetchWithRetry(url, {}, 3, 1, budget);
+
+		expect(response.status).toBe(403);
+		expect(fake.count(/^\/users\/alice$/)).toBe(1);
+		expect(budget.limited).toBe(true);
+		expect(budget.resources.core).toEqual({ remaining: 0, reset });
+	});
+
+	it('skips requests when the budget is exhausted', async () => {
+		const fake = installFakeGithub();
+		const budget = createRequestBudget(10);
+		budget.resources.core = {
+			remaining: 5,
+			reset: Math.floor(Date.now() / 1000) + 3600,
+		};
+
+		await expect(fetchWithRetry(url, {}, 3, 1, budget)).rejects.toThrow(
+			'Rate limit budget exhausted',
+		);
+		expect(fake.requests).toHaveLength(0);
+		expect(budget.limited).toBe(true);
+	});
+});
+
+describe('getRateLimitResource', () => {
+	it('classifies requests after the configured API path', () => {
+		const github = 'https://api.github.com';
+		expect(getRateLimitResource(`${github}/graphql`, github)).toBe('graphql');
+		expect(getRateLimitResource(`${github}/search/issues`, github)).toBe(
+			'search',
+		);
+		expect(getRateLimitResource(`${github}/users/alice`, github)).toBe('core');
+
+		// GitHub Enterprise Server
+		const ghe = 'https://ghe.example.com/api/v3';
+		expect(
+			getRateLimitResource('https://ghe.example.com/api/graphql', ghe),
+		).toBe('graphql');
+		expect(getRateLimitResource(`${ghe}/search/issues`, ghe)).toBe('search');
+		expect(getRateLimitResource(`${ghe}/repos/a/b/commits`, ghe)).toBe(
+			'core',
+		);
+	});
+});
+
+describe('getCommitCount', () => {
+	it('counts only the user commits in the monitoring window', async () => {
+		installFakeGithub();
+		const config = getTestConfig();
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.commits).toBe(EXPECTED_COMMITS);
+		expect(result.repos).toEqual({ 'alice/app': 3, 'alice/paged': 5 });
+		expect(result.sources).toEqual({ owned: 2, org: 0 });
+		expect(result.truncated).toBe(false);
+		expect(
+			Object.values(result.daily).reduce((total, count) => total + count, 0),
+		).toBe(EXPECTED_COMMITS);
+	});
+
+	it('follows pagination links', async () => {
+		const fake = installFakeGithub(undefined, { maxPerPage: 2 });
+		const config = getTestConfig();
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.repos['alice/paged']).toBe(5);
+		expect(fake.count(/^\/repos\/alice\/paged\/commits$/)).toBe(3);
+	});
+
+	it('stops listing repos that were not updated in the window', async () => {
+		const fake = installFakeGithub();
+		const config = getTestConfig();
+
+		await getCommitCount('alice', 7, config);
+
+		expect(fake.count(/^\/repos\/alice\/archive\//)).toBe(0);
+		expect(fake.count(/^\/repos\/alice\/dotfiles\//)).toBe(0);
+	});
+
+	it('counts registered emails, merges and co-authored commits when enabled', async () => {
+		installFakeGithub();
+
+		const withEmails = await getCommitCount(
+			'alice',
+			7,
+			getTestConfig({ AUTHOR_EMAILS: 'alice:alice@work.example' }),
+		);
+		expect(withEmails.repos['alice/app']).toBe(4);
+
+		const withMerges = await getCommitCount(
+			'alice',
+			7,
+			getTestConfig({ COUNT_MERGE_COMMITS: 'true' }),
+		);
+		expect(withMerges.repos['alice/app']).toBe(4);
+
+		// Botの共著コミットは数えない
+		const withCoAuthored = await getCommitCount(
+			'alice',
+			7,
+			getTestConfig({ COUNT_CO_AUTHORED: 'true' }),
+		);
+		expect(withCoAuthored.repos['alice/app']).toBe(4);
+	});
+
+	it('includes organization repos', async () => {
+		installFakeGithub();
+		const config = getTestConfig({ INCLUDE_ORG_REPOS: 'true' });
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.commits).toBe(EXPECTED_COMMITS + 2);
+		expect(result.repos['acme/website']).toBe(2);
+		expect(result.sources).toEqual({ owned: 2, org: 1 });
+	});
+
+	it('marks the result as truncated at the commit limit', async () => {
+		installFakeGithub();
+		const config = getTestConfig({ MAX_COMMITS_PER_REPO: '2' });
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.repos).toEqual({ 'alice/app': 2, 'alice/paged': 2 });
+		expect(result.truncated).toBe(true);
+	});
+
+	it('skips repos whose commits cannot be fetched', async () => {
+		const fake = installFakeGithub();
+		fake.fail('/repos/alice/app/commits', { status: 404 });
+		const config = getTestConfig();
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.repos).toEqual({ 'alice/paged': 5 });
+	});
+});
+
+describe('getCommitCount with private repos', () => {
+	const privateEnv = {
+		GITHUB_TOKEN: 'test-token',
+		INCLUDE_PRIVATE_REPOS: 'true',
+	};
+
+	it('counts private commits without exposing repo names', async () => {
+		installFakeGithub(undefined, { viewer: 'alice' });
+		const config = getTestConfig(privateEnv);
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.commits).toBe(EXPECTED_COMMITS + 2);
+		expect(result.privateCommits).toBe(2);
+		expect(result.repos).toEqual({ 'alice/app': 3, 'alice/paged': 5 });
+		expect(result.sources).toEqual({ owned: 3, org: 0 });
+	});
+
+	it('includes private organization repos', async () => {
+		installFakeGithub(undefined, { viewer: 'alice' });
+		const config = getTestConfig({ ...privateEnv, INCLUDE_ORG_REPOS: 'true' });
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.commits).toBe(EXPECTED_COMMITS + 5);
+		expect(result.privateCommits).toBe(3);
+		expect(result.repos['acme/website']).toBe(2);
+		expect(result.repos).not.toHaveProperty('acme/internal-tools');
+	});
+
+	it('counts only public repos when the token belongs to another user', async () => {
+		const fake = installFakeGithub(undefined, { viewer: 'bob' });
+		const config = getTestConfig(privateEnv);
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(fake.count(/^\/user\/repos$/)).toBe(0);
+		expect(result.commits).toBe(EXPECTED_COMMITS);
+		expect(result.privateCommits).toBe(0);
+	});
+
+	it('ignores private repos unless enabled', async () => {
+		installFakeGithub(undefined, { viewer: 'alice' });
+		const config = getTestConfig({ GITHUB_TOKEN: 'test-token' });
+
+		const result = await getCommitCount('alice', 7, config);
+
+		expect(result.commits).toBe(EXPECTED_COMMITS);
+		expect(result.privateCommits).toBe(0);
+	});
+});
+
+describe('getContributionCommitCount with private repos', () => {
+	const privateEnv = {
+		GITHUB_TOKEN: 'test-token',
+		INCLUDE_PRIVATE_REPOS: 'true',
+	};
+
+	it('counts private contributions for the token owner', async () => {
+		installFakeGithub(undefined, { viewer: 'alice' });
+		const config = getTestConfig(privateEnv);
+
+		const result = await getContributionCommitCount('alice', 7, config);
+
+		expect(result.privateCommits).toBe(2);
+		expect(result.repos).not.toHaveProperty('alice/secret-project');
+	});
+
+	it('skips private contributions when the token belongs to another user', async () => {
+		installFakeGithub(undefined, { viewer: 'bob' });
+		const config = getTestConfig(privateEnv);
+
+		const result = await getContributionCommitCount('alice', 7, config);
+
+		expect(result.privateCommits).toBe(0);
+		expect(result.commits).toBe(
+			Object.values(result.repos).reduce((sum, n) => sum + n, 0),
+		);
+		expect(result.sources).toEqual({ owned: 2, org: 0 });
+	});
+});
@@ -0,0 +1,71 @@
+import { env } from 'cloudflare:test';
+import { vi } from 'vitest';
+import type { Config, Env } from '../src/types';
+import { loadConfig } from '../src/config';
+import {
+	createFakeGithub,
+	type FakeGithubOptions,
+	type GithubFixtures,
+} from './fake-github';
+import {
+	createFakeGitea,
+	createFakeGitLab,
+	FAKE_GITEA_URL,
+	FAKE_GITLAB_URL,
+	type ForgeFixtures,
+} from './fake-forges';
+import { githubFixtures } from './fixtures/github';
+import { giteaFixtures, gitlabFixtures } from './fixtures/forges';
+
+// テスト用の環境変数（未指定の値はvitest.config.mtsの設定）
+export function getTestEnv(overrides: Partial<Env> = {}): Env {
+	return { ...(env as unknown as Env), ...overrides };
+}
+
+export function getTestConfig(overrides: Partial<Env> = {}): Config {
+	const { config, errors } = loadConfig(getTestEnv(overrides));
+	if (errors.length > 0) {
+		throw new Error(`Invalid test config: ${JSON.stringify(errors)}`);
+	}
+	return config;
+}
+
+// fetchをフィクスチャを返す偽のGitHub APIに差し替える
+export function installFakeGithub(
+	fixtures: GithubFixtures = githubFixtures,
+	options?: FakeGithubOptions,
+) {
+	const fake = createFakeGithub(fixtures, options);
+	vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) =>
+		fake.fetch(input, init),
+	);
+	return fake;
+}
+
+// GitLab・Giteaの設定（フィクスチャのaliceに対応づける）
+export const FORGE_ENV: Partial<Env> = {
+	GITLAB_URL: FAKE_GITLAB_URL,
+	GITLAB_USERNAME: 'alice',
+	GITEA_URL: FAKE_GITEA_URL,
+	GITEA_USERNAME: 'alice',
+};
+
+// fetchを偽のGitHub・GitLab・Gitea APIに差し替える
+export function installFakeForges(
+	fixtures: { gitlab?: ForgeFixtures; gitea?: ForgeFixtures } = {},
+) {
+	const github = createFakeGithub(githubFixtures);
+	const gitlab = createFakeGitLab(fixtures.gitlab ?? gitlabFixtures);
+	const gitea = createFakeGitea(fixtures.gitea ?? giteaFixtures);
+	const requests: URL[] = [];
+
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		const request = new Request(input, init);
+		const url = new URL(request.url);
+		requests.push(url);
+		if (url.origin === FAKE_GITLAB_URL) return gitlab(url);
+		if (url.origin === FAKE_GITEA_URL) return gitea(url);
+		return github.fetch(request);
+	});
+	return { github, requests };
+}
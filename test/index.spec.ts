@@ -1,24 +1,440 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect } from 'vitest';
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CacheData, Env } from '../src/types';
 import worker from '../src/index';
+import {
+	getCacheKey,
+	getRefreshStatus,
+	getRefreshStatusKey,
+	getRepoCursors,
+} from '../src/cache';
+import { EXPECTED_COMMITS } from './fixtures/github';
+import { getTestEnv, installFakeGithub } from './helpers';
 
 // For now, you'll need to do something like this to get a correctly-typed
 // `Request` to pass to `worker.fetch()`.
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+// Workerにリクエストし、waitUntilに渡された処理の完了まで待つ
+async function request(
+	path: string,
+	env: Env = getTestEnv(),
+	init: { method?: string; headers?: HeadersInit } = {},
+) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(
+		new IncomingRequest(`http://example.com${path}`, init),
+		env,
+		ctx,
+	);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+function getCached(env: Env, username: string) {
+	return env.AM_I_GENKI_CACHE.get(
+		getCacheKey(username),
+		'json',
+	) as Promise<CacheData | null>;
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+// 管理用エンドポイントの認証ヘッダー（ADMIN_TOKEN: secret）
+const ADMIN = { headers: { Authorization: 'Bearer secret' } };
+
+describe('GET /health', () => {
+	it('reports the service status', async () => {
+		const response = await request('/health');
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			status: 'ok',
+			configured: true,
+			configValid: true,
+		});
+	});
+});
+
+describe('GET /config', () => {
+	it('reports only the validation result publicly', async () => {
+		const env = getTestEnv({
+			UPDATE_HOUR: '25',
+			AUTHOR_EMAILS: 'me@example.test',
+		});
+
+		const response = await request('/config', env);
+
+		expect(response.status).toBe(200);
+		// 不正な値も返さない
+		const body = await response.text();
+		expect(body).not.toContain('me@example.test');
+		expect(JSON.parse(body)).toEqual({
+			valid: false,
+			errors: [
+				{ key: 'UPDATE_HOUR', code: 'out_of_range' },
+				{ key: 'AUTHOR_EMAILS', code: 'invalid_value' },
+			],
+		});
+	});
+
+	it('returns the full diagnostics to admins only', async () => {
+		const env = getTestEnv({ ADMIN_TOKEN: 'secret' });
+
+		const denied = await request('/admin/config', env);
+		expect(denied.status).toBe(401);
+
+		const response = await request('/admin/config', env, ADMIN);
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			valid: true,
+			errors: [],
+			config: { username: 'alice', adminToken: '[redacted]' },
+			token: { configured: false },
+		});
+	});
+});
+
+describe('GET /badge', () => {
+	it('fetches and caches the status on the first request', async () => {
+		installFakeGithub();
+		const env = getTestEnv();
+
+		const response = await request('/badge', env);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('image/svg+xml');
+		expect(response.headers.get('X-Commits')).toBe(String(EXPECTED_COMMITS));
+		expect(response.headers.get('X-Status')).toBe('moderate');
+		expect(await response.text()).toContain('<svg');
+
+		const cached = await getCached(env, 'alice');
+		expect(cached?.commits).toBe(EXPECTED_COMMITS);
+	});
+
+	it('serves fresh cache without calling the API', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv();
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify({
+				commits: 20,
+				status: 'healthy',
+				lastUpdated: new Date().toISOString(),
+				sources: { owned: 2, org: 0 },
+			} satisfies CacheData),
+		);
+
+		const response = await request('/badge', env);
+
+		expect(response.headers.get('X-Commits')).toBe('20');
+		expect(response.headers.get('X-Status')).toBe('healthy');
+		expect(fake.requests).toHaveLength(0);
+	});
+
+	it('serves stale cache and refreshes it in the background', async () => {
+		installFakeGithub();
+		const env = getTestEnv();
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify({
+				commits: 20,
+				status: 'healthy',
+				lastUpdated: new Date(
+					Date.now() - 2 * 24 * 60 * 60 * 1000,
+				).toISOString(),
+				sources: { owned: 2, org: 0 },
+			} satisfies CacheData),
+		);
+
+		const response = await request('/badge', env);
+		expect(response.headers.get('X-Commits')).toBe('20');
+
+		const cached = await getCached(env, 'alice');
+		expect(cached?.commits).toBe(EXPECTED_COMMITS);
+		expect(cached?.status).toBe('moderate');
+	});
+
+	it('returns a shields.io endpoint JSON', async () => {
+		installFakeGithub();
+
+		const response = await request('/badge/alice.json');
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			schemaVersion: 1,
+			color: 'yellow',
+		});
+	});
+
+	it('rejects invalid and bot usernames', async () => {
+		const fake = installFakeGithub();
+
+		expect((await request('/badge/-invalid-')).status).toBe(400);
+		expect((await request('/badge/renovate[bot]')).status).toBe(400);
+		expect(fake.requests).toHaveLength(0);
+	});
+
+	it('rejects users that are not allowed', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv({ ALLOWED_USERNAMES: 'alice' });
+
+		expect((await request('/badge/bob', env)).status).toBe(403);
+		expect(fake.requests).toHaveLength(0);
+	});
+});
+
+describe('GET /badge/trend', () => {
+	it('rejects days outside the recorded history', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv({ HISTORY_DAYS: '14' });
+
+		for (const days of ['0', '15', 'abc']) {
+			const response = await request(`/badge/trend?days=${days}`, env);
+			expect(response.status, days).toBe(400);
+		}
+		expect(fake.requests).toHaveLength(0);
+
+		const response = await request('/badge/trend?days=14', env);
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('image/svg+xml');
+	});
+});
+
+describe('GET /card', () => {
+	it('renders the profile card from the shared cache', async () => {
+		installFakeGithub();
+		const env = getTestEnv();
+
+		const response = await request('/card?lang=en', env);
+		const svg = await response.text();
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('image/svg+xml');
+		expect(response.headers.get('X-Status')).toBe('moderate');
+		expect(svg).toContain('@alice');
+		expect(svg).toContain('So-so');
+		expect(svg).toContain(`>${EXPECTED_COMMITS}</text>`);
+		expect(svg).toContain('>2 / 0</text>');
+		expect(svg).toContain('prefers-color-scheme: dark');
+		expect((await getCached(env, 'alice'))?.commits).toBe(EXPECTED_COMMITS);
 	});
 
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+	it('uses a fixed color scheme when requested', async () => {
+		installFakeGithub();
+
+		const svg = await (await request('/card/alice?theme=dark')).text();
+
+		expect(svg).toContain('#0d1117');
+		expect(svg).not.toContain('prefers-color-scheme');
+	});
+
+	it('escapes user-provided text', async () => {
+		installFakeGithub();
+
+		const response = await request(
+			`/card?label=${encodeURIComponent('<b>"me"</b>')}&moderateText=${encodeURIComponent('a&b')}`,
+		);
+		const svg = await response.text();
+
+		expect(svg).toContain('&lt;b&gt;&quot;me&quot;&lt;/b&gt;');
+		expect(svg).toContain('a&amp;b');
+		expect(svg).not.toContain('<b>');
+	});
+
+	it('shares the validation with /badge', async () => {
+		const fake = installFakeGithub();
+
+		expect((await request('/card/-invalid-')).status).toBe(400);
+		expect((await request('/card?days=0')).status).toBe(400);
+		expect(fake.requests).toHaveLength(0);
+	});
+});
+
+describe('GET /api/status', () => {
+	it('returns the counts with the activity breakdown', async () => {
+		installFakeGithub();
+		const env = getTestEnv({ WEIGHT_PULL_REQUESTS: '1' });
+
+		const response = await request('/api/status/alice', env);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			username: 'alice',
+			commits: EXPECTED_COMMITS,
+			score: EXPECTED_COMMITS + 2,
+			activity: { commits: EXPECTED_COMMITS, pullRequests: 2 },
+			sources: { owned: 2, org: 0 },
+			partial: false,
+			truncated: false,
+		});
+	});
+});
+
+describe('query overrides', () => {
+	it('caches a custom monitoring window separately', async () => {
+		installFakeGithub();
+		const env = getTestEnv();
+
+		const response = await request('/api/status/alice?days=30', env);
+
+		// 期間外だったapp（10日前）のコミットも数える
+		expect(await response.json()).toMatchObject({
+			commits: EXPECTED_COMMITS + 1,
+			monitoringDays: 30,
+		});
+		expect(
+			await env.AM_I_GENKI_CACHE.get(getCacheKey('alice', 30), 'json'),
+		).toMatchObject({ commits: EXPECTED_COMMITS + 1 });
+		expect(await getCached(env, 'alice')).toBeNull();
+	});
+
+	it('re-classifies the cached data with custom thresholds', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv();
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify({
+				commits: 6,
+				status: 'moderate',
+				lastUpdated: new Date().toISOString(),
+				sources: { owned: 1, org: 0 },
+			} satisfies CacheData),
+		);
+
+		const response = await request('/badge/alice?healthy=6&moderate=2', env);
+
+		expect(response.headers.get('X-Status')).toBe('healthy');
+		expect(fake.requests).toHaveLength(0);
+	});
+
+	it('rejects values outside the allowed bounds', async () => {
+		const fake = installFakeGithub();
+
+		for (const query of [
+			'days=0',
+			'days=91',
+			'days=7.5',
+			'healthy=abc',
+			'healthy=3',
+			'healthy=10&moderate=10',
+		]) {
+			const response = await request(`/api/status/alice?${query}`);
+			expect(response.status, query).toBe(400);
+			expect(await response.json()).toHaveProperty('error');
+		}
+		expect((await request('/badge?days=1000')).status).toBe(400);
+		expect(fake.requests).toHaveLength(0);
+	});
+});
+
+describe('GET /api/repos', () => {
+	it('reports private commits only as a total', async () => {
+		installFakeGithub(undefined, { viewer: 'alice' });
+		const env = getTestEnv({
+			GITHUB_TOKEN: 'test-token',
+			INCLUDE_PRIVATE_REPOS: 'true',
+		});
+
+		const response = await request('/api/repos/alice', env);
+		const body = await response.text();
+
+		expect(response.status).toBe(200);
+		expect(JSON.parse(body)).toMatchObject({ privateCommits: 2 });
+		expect(body).not.toContain('secret-project');
+		expect(JSON.stringify(await getCached(env, 'alice'))).not.toContain(
+			'secret-project',
+		);
+		expect(
+			JSON.stringify(await getRepoCursors(env, 'alice')),
+		).not.toContain('secret-project');
+	});
+});
+
+describe('admin endpoints', () => {
+	it('requires the admin token', async () => {
+		const fake = installFakeGithub();
+		const env = getTestEnv({ ADMIN_TOKEN: 'secret' });
+
+		for (const [method, path] of [
+			['POST', '/admin/refresh/alice'],
+			['DELETE', '/admin/cache/alice'],
+			['GET', '/admin/status/alice'],
+		]) {
+			const denied = await request(path, env, { method });
+			expect(denied.status, path).toBe(401);
+
+			const wrong = await request(path, env, {
+				method,
+				headers: { Authorization: 'Bearer wrong' },
+			});
+			expect(wrong.status, path).toBe(401);
+		}
+		expect(fake.requests).toHaveLength(0);
+	});
+
+	it('refreshes the cache synchronously', async () => {
+		installFakeGithub();
+		const env = getTestEnv({ ADMIN_TOKEN: 'secret' });
+
+		const response = await request('/admin/refresh/alice', env, {
+			...ADMIN,
+			method: 'POST',
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			username: 'alice',
+			data: { commits: EXPECTED_COMMITS },
+		});
+		expect(await getCached(env, 'alice')).toMatchObject({
+			commits: EXPECTED_COMMITS,
+		});
+	});
+
+	it('purges the caches of custom windows', async () => {
+		installFakeGithub();
+		const env = getTestEnv({ ADMIN_TOKEN: 'secret' });
+		await request('/badge/alice', env);
+		await request('/badge/alice?days=30', env);
+		const windowKey = getCacheKey('alice', 30);
+		expect(await env.AM_I_GENKI_CACHE.get(windowKey)).not.toBeNull();
+		expect(
+			await env.AM_I_GENKI_CACHE.get(getRefreshStatusKey(windowKey)),
+		).not.toBeNull();
+
+		const response = await request('/admin/cache/alice', env, {
+			...ADMIN,
+			method: 'DELETE',
+		});
+
+		expect(response.status).toBe(200);
+		expect(await getCached(env, 'alice')).toBeNull();
+		expect(await env.AM_I_GENKI_CACHE.get(windowKey)).toBeNull();
+		expect(await getRefreshStatus(env, windowKey)).toBeNull();
+	});
+
+	it('reports the last failed refresh', async () => {
+		const fake = installFakeGithub();
+		fake.fail('/users/alice/repos', { status: 500 });
+		const env = getTestEnv({ ADMIN_TOKEN: 'secret' });
+
+		const refresh = await request('/admin/refresh/alice', env, {
+			...ADMIN,
+			method: 'POST',
+		});
+		expect(refresh.status).toBe(502);
+
+		const response = await request('/admin/status/alice', env, ADMIN);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			username: 'alice',
+			cache: null,
+			refresh: { failures: 1, lastError: { message: expect.any(String) } },
+			backingOff: true,
+		});
 	});
 });
@@ -0,0 +1,422 @@
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CacheData, Env, HealthStatus } from '../src/types';
+import { getCacheKey, updateCacheInBackground } from '../src/cache';
+import {
+	getNotificationStatus,
+	getNotificationStatusKey,
+	notifyStatusChange,
+} from '../src/notify';
+import { handlePushEvent } from '../src/webhook';
+import { createFakeGithub, FAKE_GITHUB_API_URL } from './fake-github';
+import { githubFixtures } from './fixtures/github';
+import { getTestConfig, getTestEnv } from './helpers';
+
+const HOOKS_URL = 'https://hooks.test';
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+function cacheData(status: HealthStatus, overrides: Partial<CacheData> = {}) {
+	return {
+		commits: 3,
+		score: 3,
+		status,
+		lastUpdated: new Date().toISOString(),
+		sources: { owned: 1, org: 0 },
+		...overrides,
+	} satisfies CacheData;
+}
+
+// 通知先へのリクエストを記録し、GitHub APIへのリクエストはフィクスチャを返す
+function installHooks(
+	respond: (url: URL) => Response = () => new Response('ok'),
+) {
+	const github = createFakeGithub(githubFixtures);
+	const deliveries: Array<{ url: URL; body: unknown }> = [];
+
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		const request = new Request(input, init);
+		const url = new URL(request.url);
+		if (url.origin === FAKE_GITHUB_API_URL) return github.fetch(request);
+
+		deliveries.push({ url, body: await request.json() });
+		return respond(url);
+	});
+	return deliveries;
+}
+
+function notifyEnv(overrides: Partial<Env> = {}): Partial<Env> {
+	return {
+		NOTIFY_TARGETS: `slack:${HOOKS_URL}/slack;discord:${HOOKS_URL}/discord;${HOOKS_URL}/webhook`,
+		...overrides,
+	};
+}
+
+describe('notifyStatusChange', () => {
+	it('posts the transition to every target', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(notifyEnv({ BADGE_LANG: 'en' }));
+
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('healthy'),
+			cacheData('inactive'),
+		);
+
+		const bodies = Object.fromEntries(
+			deliveries.map(({ url, body }) => [url.pathname, body]),
+		);
+		expect(bodies['/slack']).toEqual({
+			text: 'alice is now "🙁 Not genki" (was "😎 Genki", score: 3)',
+		});
+		expect(bodies['/discord']).toMatchObject({
+			content: 'alice is now "🙁 Not genki" (was "😎 Genki", score: 3)',
+		});
+		expect(bodies['/webhook']).toMatchObject({
+			event: 'status_changed',
+			username: 'alice',
+			from: 'healthy',
+			to: 'inactive',
+			score: 3,
+		});
+
+		const status = await getNotificationStatus(env, 'alice');
+		expect(status).toMatchObject({
+			lastNotified: { from: 'healthy', to: 'inactive' },
+			failures: 0,
+		});
+	});
+
+	it('ignores unchanged, partial and unselected transitions', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TRANSITIONS: '*->inactive' }),
+		);
+
+		await notifyStatusChange(env, config, null, cacheData('inactive'));
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('moderate'),
+			cacheData('moderate'),
+		);
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('moderate'),
+			cacheData('inactive', { partial: true }),
+		);
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('moderate'),
+			cacheData('healthy'),
+		);
+
+		expect(deliveries).toHaveLength(0);
+		const status = await getNotificationStatus(env, 'alice');
+		expect(status?.lastNotified).toBeUndefined();
+		expect(status?.lastStatus).toBe('healthy');
+	});
+
+	it('compares against the last complete status', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TARGETS: `${HOOKS_URL}/webhook` }),
+		);
+
+		await notifyStatusChange(env, config, null, cacheData('healthy'));
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('healthy'),
+			cacheData('inactive', { partial: true }),
+		);
+		// 一部のみのキャッシュからの「変化」は通知しない
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('inactive', { partial: true }),
+			cacheData('healthy'),
+		);
+		expect(deliveries).toHaveLength(0);
+
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('inactive', { partial: true }),
+			cacheData('moderate'),
+		);
+		expect(deliveries).toHaveLength(1);
+		expect(deliveries[0].body).toMatchObject({
+			from: 'healthy',
+			to: 'moderate',
+		});
+	});
+
+	it('suppresses transitions during the cooldown', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TARGETS: `slack:${HOOKS_URL}/slack` }),
+		);
+
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('healthy'),
+			cacheData('moderate'),
+		);
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('moderate'),
+			cacheData('healthy'),
+		);
+
+		expect(deliveries).toHaveLength(1);
+		expect(await getNotificationStatus(env, 'alice')).toMatchObject({
+			lastNotified: { from: 'healthy', to: 'moderate' },
+			pending: { from: 'moderate', to: 'healthy', reason: 'cooldown' },
+		});
+	});
+
+	it('delivers the suppressed transition once the cooldown ends', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TARGETS: `${HOOKS_URL}/webhook` }),
+		);
+
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('healthy'),
+			cacheData('moderate'),
+		);
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('moderate'),
+			cacheData('inactive'),
+		);
+		expect(deliveries).toHaveLength(1);
+
+		// クールダウンが明けた後の更新では、元気度が変わっていなくても保留分を通知する
+		const status = await getNotificationStatus(env, 'alice');
+		status!.lastNotified!.at = new Date(
+			Date.now() - 7 * 60 * 60 * 1000,
+		).toISOString();
+		await env.AM_I_GENKI_CACHE.put(
+			getNotificationStatusKey('alice'),
+			JSON.stringify(status),
+		);
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('inactive'),
+			cacheData('inactive'),
+		);
+
+		expect(deliveries).toHaveLength(2);
+		expect(deliveries[1].body).toMatchObject({
+			from: 'moderate',
+			to: 'inactive',
+		});
+		const updated = await getNotificationStatus(env, 'alice');
+		expect(updated?.lastNotified).toMatchObject({
+			from: 'moderate',
+			to: 'inactive',
+		});
+		expect(updated?.pending).toBeUndefined();
+	});
+
+	it('drops suppressed transitions that were reverted', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TARGETS: `${HOOKS_URL}/webhook` }),
+		);
+
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('healthy'),
+			cacheData('moderate'),
+		);
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('moderate'),
+			cacheData('inactive'),
+		);
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('inactive'),
+			cacheData('moderate'),
+		);
+
+		expect(deliveries).toHaveLength(1);
+		expect(
+			(await getNotificationStatus(env, 'alice'))?.pending,
+		).toBeUndefined();
+	});
+
+	it('keeps undelivered transitions pending until a target accepts them', async () => {
+		let available = false;
+		const deliveries = installHooks(() =>
+			available
+				? new Response('ok')
+				: new Response('gone', { status: 410 }),
+		);
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TARGETS: `${HOOKS_URL}/webhook` }),
+		);
+
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('healthy'),
+			cacheData('inactive'),
+		);
+		expect(await getNotificationStatus(env, 'alice')).toMatchObject({
+			pending: { from: 'healthy', to: 'inactive', reason: 'failed' },
+			failures: 1,
+		});
+
+		available = true;
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('inactive'),
+			cacheData('inactive'),
+		);
+
+		expect(deliveries).toHaveLength(2);
+		expect(deliveries[1].body).toMatchObject({
+			from: 'healthy',
+			to: 'inactive',
+		});
+		const status = await getNotificationStatus(env, 'alice');
+		expect(status?.pending).toBeUndefined();
+		expect(status?.failures).toBe(0);
+	});
+
+	it('retries server errors and records failed deliveries', async () => {
+		let attempts = 0;
+		const deliveries = installHooks((url) => {
+			if (url.pathname === '/slack' && ++attempts === 1) {
+				return new Response('unavailable', { status: 503 });
+			}
+			if (url.pathname === '/webhook') {
+				return new Response('gone', { status: 410 });
+			}
+			return new Response('ok');
+		});
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({
+				NOTIFY_TARGETS: `slack:${HOOKS_URL}/slack;${HOOKS_URL}/webhook`,
+			}),
+		);
+
+		await notifyStatusChange(
+			env,
+			config,
+			cacheData('healthy'),
+			cacheData('inactive'),
+		);
+
+		expect(
+			deliveries.filter(({ url }) => url.pathname === '/slack'),
+		).toHaveLength(2);
+		expect(await getNotificationStatus(env, 'alice')).toMatchObject({
+			lastNotified: { from: 'healthy', to: 'inactive' },
+			lastError: { target: 'webhook (hooks.test)', message: 'HTTP 410' },
+			failures: 1,
+		});
+	});
+});
+
+describe('updateCacheInBackground', () => {
+	it('notifies when the refreshed status differs from the cache', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TARGETS: `${HOOKS_URL}/webhook` }),
+		);
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify(
+				cacheData('healthy', {
+					lastUpdated: new Date(
+						Date.now() - 2 * 24 * 60 * 60 * 1000,
+					).toISOString(),
+				}),
+			),
+		);
+
+		await updateCacheInBackground(env, config, getCacheKey('alice'));
+
+		expect(deliveries).toHaveLength(1);
+		expect(deliveries[0].body).toMatchObject({
+			from: 'healthy',
+			to: 'moderate',
+		});
+	});
+});
+
+describe('handlePushEvent', () => {
+	it('notifies when pushed commits change the status', async () => {
+		const deliveries = installHooks();
+		const env = getTestEnv();
+		const config = getTestConfig(
+			notifyEnv({ NOTIFY_TARGETS: `${HOOKS_URL}/webhook` }),
+		);
+		await env.AM_I_GENKI_CACHE.put(
+			getCacheKey('alice'),
+			JSON.stringify(cacheData('inactive', { commits: 4, score: 4 })),
+		);
+
+		const ctx = createExecutionContext();
+		const updated = await handlePushEvent(env, ctx, config, {
+			ref: 'refs/heads/main',
+			repository: {
+				name: 'app',
+				private: false,
+				default_branch: 'main',
+				owner: { login: 'alice', type: 'User' },
+			},
+			commits: [
+				{
+					id: 'push1',
+					distinct: true,
+					message: 'Fix typo',
+					timestamp: new Date().toISOString(),
+					author: {
+						name: 'alice',
+						email: 'alice@example.test',
+						username: 'alice',
+					},
+				},
+			],
+		});
+		await waitOnExecutionContext(ctx);
+
+		expect(updated).toEqual(['alice']);
+		expect(deliveries).toHaveLength(1);
+		expect(deliveries[0].body).toMatchObject({
+			from: 'inactive',
+			to: 'moderate',
+			commits: 5,
+		});
+	});
+});
@@ -0,0 +1,234 @@
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CacheData, Env, GitHubPushEvent } from '../src/types';
+import worker from '../src/index';
+import { getCacheKey, refreshCache } from '../src/cache';
+import { verifyWebhookSignature } from '../src/webhook';
+import { EXPECTED_COMMITS, githubFixtures } from './fixtures/github';
+import { getTestConfig, getTestEnv, installFakeGithub } from './helpers';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+const SECRET = 'webhook-secret';
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+// GitHubと同じくHMAC-SHA256で署名する
+async function sign(body: string, secret = SECRET) {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign'],
+	);
+	const signature = await crypto.subtle.sign(
+		'HMAC',
+		key,
+		encoder.encode(body),
+	);
+	const hex = Array.from(new Uint8Array(signature))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+	return `sha256=${hex}`;
+}
+
+function pushEvent(
+	commits: Array<Partial<GitHubPushEvent['commits'][number]>>,
+	ref = 'refs/heads/main',
+): GitHubPushEvent {
+	return {
+		ref,
+		repository: {
+			name: 'app',
+			private: false,
+			default_branch: 'main',
+			owner: { login: 'alice', type: 'User' },
+		},
+		commits: commits.map((commit, i) => ({
+			id: `push${i}`,
+			distinct: true,
+			message: 'Fix typo',
+			timestamp: new Date().toISOString(),
+			author: {
+				name: 'alice',
+				email: 'alice@users.noreply.github.com',
+				username: 'alice',
+			},
+			...commit,
+		})),
+	};
+}
+
+// Webhookを配信し、waitUntilに渡された処理の完了まで待つ
+async function deliver(
+	env: Env,
+	payload: unknown,
+	options: { delivery?: string; event?: string; signature?: string } = {},
+) {
+	const body = JSON.stringify(payload);
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(
+		new IncomingRequest('http://example.com/webhook/github', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-GitHub-Event': options.event ?? 'push',
+				'X-GitHub-Delivery': options.delivery ?? crypto.randomUUID(),
+				'X-Hub-Signature-256': options.signature ?? (await sign(body)),
+			},
+			body,
+		}),
+		env,
+		ctx,
+	);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+async function setupCache(overrides: Partial<Env> = {}) {
+	const env = getTestEnv({ GITHUB_WEBHOOK_SECRET: SECRET, ...overrides });
+	await env.AM_I_GENKI_CACHE.put(
+		getCacheKey('alice'),
+		JSON.stringify({
+			commits: 3,
+			score: 3,
+			status: 'inactive',
+			lastUpdated: new Date().toISOString(),
+			sources: { owned: 1, org: 0 },
+		} satisfies CacheData),
+	);
+	return env;
+}
+
+async function getCommits(env: Env) {
+	const data = (await env.AM_I_GENKI_CACHE.get(
+		getCacheKey('alice'),
+		'json',
+	)) as CacheData;
+	return data.commits;
+}
+
+describe('verifyWebhookSignature', () => {
+	it('accepts only the signature of the same body and secret', async () => {
+		const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+		const signature = await sign(body);
+
+		expect(await verifyWebhookSignature(SECRET, body, signature)).toBe(true);
+		expect(await verifyWebhookSignature(SECRET, `${body} `, signature)).toBe(
+			false,
+		);
+		expect(await verifyWebhookSignature('other', body, signature)).toBe(false);
+		expect(
+			await verifyWebhookSignature(SECRET, body, signature.slice(7)),
+		).toBe(false);
+		expect(await verifyWebhookSignature(SECRET, body, 'sha256=zz')).toBe(
+			false,
+		);
+		expect(await verifyWebhookSignature(SECRET, body, undefined)).toBe(false);
+	});
+});
+
+describe('POST /webhook/github', () => {
+	it('rejects requests with an invalid signature', async () => {
+		const env = await setupCache();
+		const payload = pushEvent([{}]);
+
+		const response = await deliver(env, payload, {
+			signature: await sign(JSON.stringify(payload), 'wrong-secret'),
+		});
+
+		expect(response.status).toBe(401);
+		expect(await getCommits(env)).toBe(3);
+	});
+
+	it('adds pushed commits once per delivery', async () => {
+		const env = await setupCache();
+		const payload = pushEvent([{}, {}]);
+
+		const first = await deliver(env, payload, { delivery: 'delivery-1' });
+		expect(await first.json()).toMatchObject({ updated: ['alice'] });
+
+		const second = await deliver(env, payload, { delivery: 'delivery-1' });
+		expect(await second.json()).toMatchObject({
+			message: 'Already processed',
+		});
+		expect(await getCommits(env)).toBe(5);
+	});
+
+	it('ignores pushes to other branches', async () => {
+		const env = await setupCache();
+
+		const response = await deliver(
+			env,
+			pushEvent([{}], 'refs/heads/feature'),
+		);
+
+		expect(await response.json()).toMatchObject({ updated: [] });
+		expect(await getCommits(env)).toBe(3);
+	});
+
+	it('skips bot and merge commits', async () => {
+		const env = await setupCache();
+
+		await deliver(
+			env,
+			pushEvent([
+				{},
+				{ message: 'Merge pull request #1 from alice/feature' },
+				{
+					author: {
+						name: 'renovate[bot]',
+						email: 'bot@renovateapp.com',
+						username: 'renovate[bot]',
+					},
+				},
+			]),
+		);
+
+		expect(await getCommits(env)).toBe(4);
+	});
+
+	it('counts private pushes only for the token owner', async () => {
+		for (const [viewer, commits] of [
+			['bob', 3],
+			['alice', 4],
+		] as const) {
+			vi.restoreAllMocks();
+			installFakeGithub(undefined, { viewer });
+			const env = await setupCache({
+				GITHUB_TOKEN: 'test-token',
+				INCLUDE_PRIVATE_REPOS: 'true',
+			});
+			const payload = pushEvent([{}]);
+			payload.repository.private = true;
+
+			await deliver(env, payload);
+
+			expect(await getCommits(env), viewer).toBe(commits);
+		}
+	});
+
+	it('counts a pushed commit once after the refresh dates it differently', async () => {
+		const fixtures = structuredClone(githubFixtures);
+		installFakeGithub(fixtures);
+		const env = getTestEnv({ GITHUB_WEBHOOK_SECRET: SECRET });
+		const config = getTestConfig();
+		await refreshCache(env, config, getCacheKey('alice'));
+
+		// pushイベントのtimestampは今日、APIのコミット日時は2日前
+		await deliver(env, pushEvent([{ id: 'late1' }]));
+		const app = fixtures.users.alice.repos.find(
+			(repo) => repo.name === 'app',
+		)!;
+		app.commits.push({ sha: 'late1', login: 'alice', daysAgo: 2 });
+		app.pushedDaysAgo = -1;
+
+		const data = await refreshCache(env, config, getCacheKey('alice'));
+
+		expect(data.commits).toBe(EXPECTED_COMMITS + 1);
+	});
+});
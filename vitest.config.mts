@@ -1,10 +1,43 @@
+import { createRequire } from 'node:module';
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
+const require = createRequire(import.meta.url);
+
 export default defineWorkersConfig({
 	test: {
+		deps: {
+			optimizer: {
+				// badge-maker（anafanafo）は読み込み時にfs.readFileを参照するため、
+				// wranglerのデプロイ時と同じunenvのfsに置き換えてバンドルする
+				ssr: {
+					enabled: true,
+					include: ['badge-maker'],
+					esbuildOptions: {
+						plugins: [
+							{
+								name: 'unenv-fs',
+								setup(build) {
+									build.onResolve({ filter: /^(node:)?fs$/ }, () => ({
+										path: require.resolve('unenv/node/fs'),
+									}));
+								},
+							},
+						],
+					},
+				},
+			},
+		},
 		poolOptions: {
 			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+				// wrangler.jsonc は環境ごとに異なるため、サンプルの設定で実行する
+				wrangler: { configPath: './wrangler.sample.jsonc' },
+				miniflare: {
+					kvNamespaces: ['AM_I_GENKI_CACHE'],
+					bindings: {
+						GITHUB_USERNAME: 'alice',
+						GITHUB_API_URL: 'https://github.test',
+					},
+				},
 			},
 		},
 	},